@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseEmbedLink } from '../lib/embeds';
+
+describe('parseEmbedLink for Vimeo', () => {
+  it('accepts single video links', () => {
+    assert.deepEqual(parseEmbedLink('https://vimeo.com/76979871'), { provider: 'vimeo', id: '76979871', startSeconds: null });
+    assert.deepEqual(parseEmbedLink('vimeo.com/76979871#t=1m30s'), { provider: 'vimeo', id: '76979871', startSeconds: 90 });
+    assert.equal(parseEmbedLink('https://vimeo.com/channels/staffpicks/76979871')?.id, '76979871');
+    assert.equal(parseEmbedLink('https://vimeo.com/groups/shortfilms/videos/76979871')?.id, '76979871');
+    assert.equal(parseEmbedLink('https://player.vimeo.com/video/76979871')?.id, '76979871');
+  });
+
+  it('keeps the private hash of unlisted videos', () => {
+    assert.equal(parseEmbedLink('https://vimeo.com/76979871/8272103f6e')?.id, '76979871:8272103f6e');
+    assert.equal(parseEmbedLink('https://player.vimeo.com/video/76979871?h=8272103f6e')?.id, '76979871:8272103f6e');
+  });
+
+  it('rejects showcases and albums', () => {
+    assert.equal(parseEmbedLink('https://vimeo.com/showcase/9876543'), null);
+    assert.equal(parseEmbedLink('https://vimeo.com/showcase/9876543/video/76979871'), null);
+    assert.equal(parseEmbedLink('https://vimeo.com/album/1234567'), null);
+    assert.equal(parseEmbedLink('https://vimeo.com/album/1234567/video/76979871'), null);
+  });
+
+  it('rejects other paths with numbers in them', () => {
+    assert.equal(parseEmbedLink('https://vimeo.com/user12345'), null);
+    assert.equal(parseEmbedLink('https://vimeo.com/channels/staffpicks'), null);
+    assert.equal(parseEmbedLink('https://vimeo.com/groups/shortfilms/76979871'), null);
+    assert.equal(parseEmbedLink('https://player.vimeo.com/video/76979871/extra'), null);
+    assert.equal(parseEmbedLink('https://player.vimeo.com/76979871'), null);
+  });
+});
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { before, describe, it } from 'node:test';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+// Public responses must never carry a submitter's email (images.artist).
+// Supabase is replaced by an in-memory table holding complete rows, emails
+// included, that honours the column list of each select; so a route that
+// selects `*` or the artist column leaks the email below.
+
+const EMAIL = 'artist@example.com';
+
+const FULL_ROW = {
+  id: 1,
+  title: 'Neon harbour',
+  description: 'a harbour at night --ar 16:9',
+  artist: EMAIL,
+  artist_name: 'Neon Painter',
+  artist_slug: 'neon-painter',
+  media_type: 'image',
+  file_path: 'abc.png',
+  youtube_link: null,
+  embed_provider: null,
+  embed_id: null,
+  embed_start_seconds: null,
+  embed_thumbnail_url: null,
+  poster_path: null,
+  duration_seconds: null,
+  width: 1280,
+  height: 720,
+  variants: [],
+  blur_data_url: null,
+  stars: 9,
+  num_votes: 2,
+  legacy_votes: 0,
+  created_at: '2026-10-01T12:00:00Z',
+  challenge_id: null,
+  challenge_rank: null,
+  model: 'midjourney',
+  model_version: '6',
+  aspect_ratio: '16:9',
+  seed: '42',
+  negative_prompt: null,
+  tags: [],
+  hidden: false,
+  status: 'approved',
+  rejection_reason: null,
+  moderated_by: 'admin',
+  email_verified_at: '2026-10-01T12:05:00Z',
+  perceptual_hash: '0101',
+  avg_rating: 4.5,
+  recent_votes: 2,
+  comment_count: 0,
+};
+
+function project(row: Record<string, unknown>, columns: string): Record<string, unknown> {
+  if (columns.trim() === '*') return { ...row };
+  const names = columns.split(',').map(name => name.trim());
+  return Object.fromEntries(names.filter(name => name in row).map(name => [name, row[name]]));
+}
+
+// A chainable stand-in for a PostgREST query: filters and ordering are
+// ignored, select decides the columns and awaiting it yields the rows.
+function fakeQuery(rows: Record<string, unknown>[]) {
+  let columns = '*';
+  let single = false;
+  const query: object = new Proxy({}, {
+    get(_, property) {
+      if (property === 'then') {
+        const data = rows.map(row => project(row, columns));
+        const result = { data: single ? data[0] ?? null : data, error: null };
+        return (resolve: (value: unknown) => unknown) => resolve(result);
+      }
+      return (...args: unknown[]) => {
+        if (property === 'select') columns = typeof args[0] === 'string' ? args[0] : '*';
+        if (property === 'single' || property === 'maybeSingle') single = true;
+        return query;
+      };
+    },
+  });
+  return query;
+}
+
+function assertNoEmail(value: unknown) {
+  const json = JSON.stringify(value);
+  assert.ok(json.length > 2, 'expected a non-empty response');
+  assert.doesNotMatch(json, /"artist":/);
+  assert.doesNotMatch(json, /@/);
+}
+
+async function callApi(handler: (req: NextApiRequest, res: NextApiResponse) => unknown, query: Record<string, string>) {
+  let status = 0;
+  let body: unknown;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      body = payload;
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+    end() {
+      return res;
+    },
+  };
+  await handler({ method: 'GET', query, headers: {} } as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return { status, body };
+}
+
+// The columns of image_feed as last defined by the migrations.
+function imageFeedColumns(): string[] {
+  const directory = join(__dirname, '..', 'supabase', 'migrations');
+  const definitions = readdirSync(directory)
+    .sort()
+    .map(file => readFileSync(join(directory, file), 'utf8'))
+    .flatMap(sql => Array.from(sql.matchAll(/create (?:or replace )?view public\.image_feed as\s+select([\s\S]*?)\nfrom public\.images i/g)))
+    .map(match => match[1]);
+  assert.ok(definitions.length > 0, 'no image_feed definition found');
+
+  const body = definitions[definitions.length - 1];
+  // Top-level select items end a line with a comma (or end the list); the
+  // name is the alias or the bare column.
+  let depth = 0;
+  let item = '';
+  const items: string[] = [];
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      items.push(item);
+      item = '';
+    } else {
+      item += char;
+    }
+  }
+  items.push(item);
+  return items.map(text => {
+    const alias = text.match(/\bas\s+(\w+)\s*$/);
+    return alias ? alias[1] : text.trim().replace(/^i\./, '');
+  });
+}
+
+describe('public image data', () => {
+  let supabaseAdmin: { from: unknown; rpc: unknown };
+
+  before(async () => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://localhost:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test';
+    ({ supabaseAdmin } = await import('../lib/supabaseAdmin'));
+    supabaseAdmin.from = () => fakeQuery([FULL_ROW]);
+    supabaseAdmin.rpc = () => fakeQuery([
+      { id: FULL_ROW.id, rank: 1, title_highlight: FULL_ROW.title, description_highlight: FULL_ROW.description, artist_name_highlight: FULL_ROW.artist_name },
+    ]);
+  });
+
+  it('leaves the email out of the image_feed view', () => {
+    const columns = imageFeedColumns();
+    assert.ok(columns.includes('artist_name'), `unexpected columns: ${columns.join(', ')}`);
+    assert.ok(!columns.includes('artist'));
+  });
+
+  it('leaves the email out of /api/images', async () => {
+    const { default: handler } = await import('../pages/api/images');
+    const { status, body } = await callApi(handler, {});
+    assert.equal(status, 200);
+    assertNoEmail(body);
+  });
+
+  it('leaves the email out of /api/search', async () => {
+    const { default: handler } = await import('../pages/api/search');
+    const { status, body } = await callApi(handler, { q: 'harbour' });
+    assert.equal(status, 200);
+    assertNoEmail(body);
+  });
+
+  it('leaves the email out of the artwork page props', async () => {
+    const { getServerSideProps } = await import('../pages/art/[id]');
+    const result = await getServerSideProps({ params: { id: '1' }, req: { headers: { host: 'localhost' } } } as never);
+    assert.ok('props' in result);
+    assertNoEmail(result.props);
+  });
+
+  it('leaves the email out of the artist page props', async () => {
+    const { getServerSideProps } = await import('../pages/artist/[slug]');
+    const result = await getServerSideProps({ params: { slug: 'neon-painter' } } as never);
+    assert.ok('props' in result);
+    assertNoEmail(result.props);
+  });
+});
@@ -0,0 +1,42 @@
+import React from 'react';
+import { cn } from '../lib/utils';
+
+export interface BarChartPoint {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartPoint[];
+  // Accessible name of the chart, e.g. "Submissions per day".
+  title: string;
+  className?: string;
+  barClassName?: string;
+}
+
+// Vertical bars scaled to the largest value. Hovering a bar shows its label
+// and value; the first and last labels sit under the axis.
+const BarChart: React.FC<BarChartProps> = ({ data, title, className, barClassName = 'bg-blue-500' }) => {
+  const max = Math.max(0, ...data.map(point => point.value));
+
+  return (
+    <figure className={className} aria-label={title}>
+      <div className="flex items-end h-40 gap-px border-b border-gray-300">
+        {data.map(point => (
+          <div key={point.label} className="flex-1 h-full flex items-end" title={`${point.label}: ${point.value}`}>
+            <div className={cn('w-full rounded-t-sm', barClassName)} style={{ height: `${max ? (point.value / max) * 100 : 0}%` }} />
+          </div>
+        ))}
+      </div>
+      {data.length > 0 && (
+        <figcaption className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{data[0].label}</span>
+          <span>max {max}</span>
+          <span>{data[data.length - 1].label}</span>
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default BarChart;
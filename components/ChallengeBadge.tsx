@@ -0,0 +1,29 @@
+import React from 'react';
+import Link from 'next/link';
+import { Trophy } from 'lucide-react';
+import { RANK_LABELS } from '../lib/challenges';
+
+interface ChallengeBadgeProps {
+  challengeId: number;
+  rank: number;
+}
+
+const RANK_STYLES: Record<number, string> = {
+  1: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  2: 'bg-gray-100 text-gray-700 border-gray-300',
+  3: 'bg-orange-100 text-orange-800 border-orange-300',
+};
+
+// Marks one of the top three entries of a finished challenge.
+const ChallengeBadge: React.FC<ChallengeBadgeProps> = ({ challengeId, rank }) => (
+  <Link
+    href={`/challenges/${challengeId}`}
+    className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${RANK_STYLES[rank]}`}
+    title="See the challenge results"
+  >
+    <Trophy className="mr-1 h-3 w-3" />
+    {RANK_LABELS[rank]} place
+  </Link>
+);
+
+export default ChallengeBadge;
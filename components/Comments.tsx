@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Button } from './ui/button';
+import { CommentThread, MAX_COMMENT_LENGTH, MAX_COMMENT_NAME_LENGTH, PublicComment, buildThreads } from '../lib/comments';
+
+interface CommentsProps {
+  imageId: number;
+}
+
+// Replies nest visually up to this depth; deeper ones line up with it.
+const MAX_INDENT = 3;
+
+interface CommentFormProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+  placeholder: string;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ name, onNameChange, onSubmit, onCancel, placeholder }) => {
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    if (await onSubmit(body)) setBody('');
+    setSending(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Input
+        value={name}
+        onChange={(e) => onNameChange(e.target.value)}
+        placeholder="Your name"
+        maxLength={MAX_COMMENT_NAME_LENGTH}
+        required
+      />
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        required
+      />
+      <div className="flex space-x-2">
+        <Button type="submit" size="sm" disabled={sending}>{sending ? 'Posting...' : 'Post'}</Button>
+        {onCancel && <Button type="button" size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>}
+      </div>
+    </form>
+  );
+};
+
+// The comment thread of one artwork, with a form for new comments and
+// replies. No account needed: commenters just give a name.
+const Comments: React.FC<CommentsProps> = ({ imageId }) => {
+  const [comments, setComments] = useState<PublicComment[]>([]);
+  const [name, setName] = useState('');
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/comments?imageId=${imageId}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Comment lookup failed with status ${response.status}`)))
+      .then(({ comments }) => setComments(comments))
+      .catch(error => console.error('Error fetching comments:', error));
+  }, [imageId]);
+
+  const postComment = async (body: string, parentId: number | null) => {
+    const response = await fetch('/api/comments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ imageId, parentId, name, body }),
+    });
+    const result = await response.json().catch(() => ({ message: null }));
+    if (!response.ok) {
+      setError(result.message || 'Failed to post comment. Please try again.');
+      return false;
+    }
+    setComments(prev => [...prev, result]);
+    setReplyTo(null);
+    setError(null);
+    return true;
+  };
+
+  const renderThread = (thread: CommentThread, depth: number): React.ReactNode => (
+    <li key={thread.id} className={depth > 0 && depth <= MAX_INDENT ? 'ml-6 border-l pl-4' : ''}>
+      <p className="text-sm">
+        <span className="font-semibold">{thread.author_name}</span>
+        <span className="text-gray-500"> · {new Date(thread.created_at).toLocaleString()}</span>
+      </p>
+      <p className="whitespace-pre-wrap text-gray-800">{thread.body}</p>
+      <Button variant="link" size="sm" className="px-0" onClick={() => setReplyTo(replyTo === thread.id ? null : thread.id)}>
+        Reply
+      </Button>
+      {replyTo === thread.id && (
+        <div className="mb-3">
+          <CommentForm
+            name={name}
+            onNameChange={setName}
+            onSubmit={(body) => postComment(body, thread.id)}
+            onCancel={() => setReplyTo(null)}
+            placeholder={`Reply to ${thread.author_name}`}
+          />
+        </div>
+      )}
+      {thread.replies.length > 0 && (
+        <ul className="space-y-3">{thread.replies.map(reply => renderThread(reply, depth + 1))}</ul>
+      )}
+    </li>
+  );
+
+  return (
+    <section id="comments" className="space-y-4">
+      <h2 className="text-xl font-semibold">Comments ({comments.length})</h2>
+      {error && <p className="text-red-600 text-sm" role="alert">{error}</p>}
+      <ul className="space-y-3">{buildThreads(comments).map(thread => renderThread(thread, 0))}</ul>
+      {replyTo === null && (
+        <CommentForm name={name} onNameChange={setName} onSubmit={(body) => postComment(body, null)} placeholder="Add a comment" />
+      )}
+    </section>
+  );
+};
+
+export default Comments;
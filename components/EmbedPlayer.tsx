@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Play } from 'lucide-react';
+import { Embed, embedUrl } from '../lib/embeds';
+import { cn } from '../lib/utils';
+
+interface EmbedPlayerProps {
+  embed: Embed;
+  thumbnailUrl: string | null;
+  title: string;
+  className?: string;
+}
+
+// Shows the video thumbnail and only loads the third-party player once the
+// visitor clicks it. The thumbnail itself still comes from the provider's
+// image host as soon as the card renders; the player, with its scripts and
+// cookies, waits for the click.
+const EmbedPlayer: React.FC<EmbedPlayerProps> = ({ embed, thumbnailUrl, title, className }) => {
+  const [active, setActive] = useState(false);
+
+  if (active) {
+    return (
+      <iframe
+        src={embedUrl(embed)}
+        title={title}
+        loading="lazy"
+        className={cn('w-full rounded-md', className)}
+        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+        allowFullScreen
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setActive(true)}
+      className={cn('relative w-full rounded-md bg-gray-900 bg-cover bg-center', className)}
+      style={thumbnailUrl ? { backgroundImage: `url(${thumbnailUrl})` } : undefined}
+      aria-label={`Play ${title}`}
+    >
+      <span className="absolute inset-0 flex items-center justify-center rounded-md bg-black/20 hover:bg-black/30">
+        <Play className="h-10 w-10 text-white fill-current" />
+      </span>
+    </button>
+  );
+};
+
+export default EmbedPlayer;
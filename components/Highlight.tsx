@@ -0,0 +1,14 @@
+import React from 'react';
+import { splitHighlights } from '../lib/search';
+
+// Renders a search highlight string with the matches in <mark>.
+const Highlight: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {splitHighlights(text).map((part, index) => part.match
+      ? <mark key={index} className="bg-yellow-200 rounded-sm">{part.text}</mark>
+      : <React.Fragment key={index}>{part.text}</React.Fragment>
+    )}
+  </>
+);
+
+export default Highlight;
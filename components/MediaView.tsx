@@ -0,0 +1,56 @@
+import React from 'react';
+import EmbedPlayer from './EmbedPlayer';
+import ResponsiveImage from './ResponsiveImage';
+import VideoPlayer from './VideoPlayer';
+import { embedFromRecord } from '../lib/embeds';
+import { cn } from '../lib/utils';
+import type { PublicImage } from '../lib/types';
+
+interface MediaViewProps {
+  item: PublicImage;
+  // Sizing classes, e.g. "h-48" on gallery cards.
+  className: string;
+  // The `sizes` attribute for the image srcset.
+  sizes: string;
+  imageFit?: 'cover' | 'contain';
+  eager?: boolean;
+}
+
+// Renders an entry's media: embedded video link, uploaded video or image.
+const MediaView: React.FC<MediaViewProps> = ({ item, className, sizes, imageFit = 'cover', eager }) => {
+  const linked = embedFromRecord(item);
+  if (linked) {
+    return <EmbedPlayer {...linked} title={item.title} className={className} />;
+  }
+  if (item.media_type === 'video' && item.file_path) {
+    return (
+      <VideoPlayer
+        filePath={item.file_path}
+        posterPath={item.poster_path}
+        durationSeconds={item.duration_seconds}
+        title={item.title}
+        className={cn('w-full', className)}
+      />
+    );
+  }
+  if (item.file_path) {
+    return (
+      <ResponsiveImage
+        filePath={item.file_path}
+        variants={item.variants}
+        blurDataUrl={item.blur_data_url}
+        alt={item.title}
+        sizes={sizes}
+        eager={eager}
+        className={cn('w-full rounded-md', imageFit === 'cover' ? 'object-cover' : 'object-contain', className)}
+      />
+    );
+  }
+  return (
+    <div className={cn('w-full bg-gray-200 flex items-center justify-center rounded-md', className)}>
+      No image or video available
+    </div>
+  );
+};
+
+export default MediaView;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Check, Flag } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { REPORT_REASONS, ReportReason } from '../lib/reports';
+
+interface ReportButtonProps {
+  imageId: number;
+  // Called when the report pushed the entry over the auto-hide threshold.
+  onHidden?: () => void;
+  align?: 'left' | 'right'; // which edge of the button the picker lines up with
+}
+
+// Flags an entry for the moderators, with a reason picker that opens
+// below the button.
+const ReportButton: React.FC<ReportButtonProps> = ({ imageId, onHidden, align = 'left' }) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+    setSending(true);
+    try {
+      const response = await fetch('/api/report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ imageId, reason, details }),
+      });
+      const result = await response.json().catch(() => ({ message: null }));
+      if (!response.ok) throw new Error(result.message || `Report failed with status ${response.status}`);
+      setSent(true);
+      setOpen(false);
+      setError(null);
+      if (result.hidden) onHidden?.();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send report');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        disabled={sent}
+        aria-label={sent ? 'Reported' : 'Report'}
+        aria-expanded={open}
+      >
+        {sent ? <Check className="h-4 w-4 text-green-600" /> : <Flag className="h-4 w-4" />}
+      </Button>
+      {open && (
+        <form
+          onSubmit={handleSubmit}
+          className={`absolute ${align === 'left' ? 'left-0' : 'right-0'} z-10 mt-1 w-64 space-y-2 rounded-md border bg-white p-3 text-sm shadow-lg`}
+        >
+          <p className="font-semibold">Report this entry</p>
+          {Object.entries(REPORT_REASONS).map(([value, label]) => (
+            <label key={value} className="flex items-center space-x-2">
+              <input
+                type="radio"
+                name={`report-reason-${imageId}`}
+                value={value}
+                checked={reason === value}
+                onChange={() => setReason(value as ReportReason)}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+          <Input
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Details (optional)"
+            maxLength={500}
+          />
+          {error && <p className="text-red-600">{error}</p>}
+          <div className="flex space-x-2">
+            <Button type="submit" size="sm" disabled={!reason || sending}>{sending ? 'Sending...' : 'Send report'}</Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ReportButton;
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { ImageVariant, publicFileUrl, variantSrcSet } from '../lib/storage';
+import { cn } from '../lib/utils';
+
+interface ResponsiveImageProps {
+  filePath: string;
+  variants?: ImageVariant[] | null;
+  blurDataUrl?: string | null;
+  alt: string;
+  sizes: string;
+  className?: string;
+  eager?: boolean;
+}
+
+// Serves the AVIF/WebP variants through srcset, falling back to the
+// original upload, and shows the blurred placeholder until it has loaded.
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ filePath, variants, blurDataUrl, alt, sizes, className, eager }) => {
+  const [loaded, setLoaded] = useState(false);
+  const avif = variantSrcSet(variants, 'avif');
+  const webp = variantSrcSet(variants, 'webp');
+
+  return (
+    <picture>
+      {avif && <source type="image/avif" srcSet={avif} sizes={sizes} />}
+      {webp && <source type="image/webp" srcSet={webp} sizes={sizes} />}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={publicFileUrl(filePath)}
+        alt={alt}
+        loading={eager ? 'eager' : 'lazy'}
+        decoding="async"
+        onLoad={() => setLoaded(true)}
+        className={cn('bg-gray-200 bg-cover bg-center', className)}
+        style={blurDataUrl && !loaded ? { backgroundImage: `url(${blurDataUrl})` } : undefined}
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
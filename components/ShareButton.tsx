@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { Check, Share2 } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface ShareButtonProps {
+  path: string; // e.g. /art/12
+  title: string;
+}
+
+// Opens the native share sheet where there is one (phones), otherwise
+// copies the link to the clipboard.
+const ShareButton: React.FC<ShareButtonProps> = ({ path, title }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    const url = new URL(path, window.location.origin).toString();
+    try {
+      if (navigator.share) {
+        await navigator.share({ title, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; nothing to report.
+      if ((error as Error).name !== 'AbortError') console.error('Error sharing link:', error);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleShare} aria-label={copied ? 'Link copied' : 'Share link'}>
+      {copied ? <Check className="h-4 w-4 text-green-600" /> : <Share2 className="h-4 w-4" />}
+    </Button>
+  );
+};
+
+export default ShareButton;
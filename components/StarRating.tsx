@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface StarRatingProps {
+  value: number | undefined;
+  onRate: (rating: number) => void;
+  disabled?: boolean;
+}
+
+// Five clickable stars. `value` is the current user's own rating; hovering
+// previews the rating that a click would give.
+const StarRating: React.FC<StarRatingProps> = ({ value, onRate, disabled }) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? value ?? 0;
+
+  return (
+    <div className="flex items-center" onMouseLeave={() => setHovered(null)}>
+      {[1, 2, 3, 4, 5].map(rating => (
+        <button
+          key={rating}
+          type="button"
+          className="p-0.5 disabled:opacity-50"
+          onMouseEnter={() => setHovered(rating)}
+          onClick={() => onRate(rating)}
+          disabled={disabled}
+          aria-label={`Rate ${rating} star${rating > 1 ? 's' : ''}`}
+        >
+          <Star className={cn('h-4 w-4 text-yellow-500', rating <= shown && 'fill-current')} />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,62 @@
+import React, { useRef, useState } from 'react';
+import { Play } from 'lucide-react';
+import { publicFileUrl } from '../lib/storage';
+import { cn } from '../lib/utils';
+
+interface VideoPlayerProps {
+  filePath: string;
+  posterPath?: string | null;
+  durationSeconds?: number | null;
+  title: string;
+  className?: string;
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Muted inline video that only starts downloading once clicked.
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ filePath, posterPath, durationSeconds, title, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [started, setStarted] = useState(false);
+
+  const handlePlay = () => {
+    setStarted(true);
+    videoRef.current?.play().catch(error => console.error('Error playing video:', error));
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <video
+        ref={videoRef}
+        src={publicFileUrl(filePath)}
+        poster={posterPath ? publicFileUrl(posterPath) : undefined}
+        muted
+        playsInline
+        loop
+        preload="none"
+        controls={started}
+        aria-label={title}
+        className="w-full h-full object-cover rounded-md bg-black"
+      />
+      {!started && (
+        <button
+          type="button"
+          onClick={handlePlay}
+          className="absolute inset-0 flex items-center justify-center rounded-md bg-black/20 hover:bg-black/30"
+          aria-label={`Play ${title}`}
+        >
+          <Play className="h-10 w-10 text-white fill-current" />
+          {durationSeconds != null && (
+            <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+              {formatDuration(durationSeconds)}
+            </span>
+          )}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VideoPlayer;
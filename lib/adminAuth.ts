@@ -0,0 +1,177 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { serialize } from 'cookie';
+import { hasRole } from './adminRoles';
+import type { AdminAccount, AdminRole } from './adminRoles';
+import { emailLinkUrl, sendMail } from './mailer';
+import { supabaseAdmin } from './supabaseAdmin';
+
+const SESSION_COOKIE = 'admin_session';
+const SESSION_TTL_SECONDS = 60 * 60;
+const SETUP_LINK_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+export interface AdminSession {
+  username: string;
+  issuedAt: number; // unix seconds
+  expiresAt: number; // unix seconds
+}
+
+// The session of an account that is still enabled, with its current role.
+export interface AdminUser extends AdminSession {
+  id: number;
+  role: AdminRole;
+}
+
+function sessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+}
+
+// Compares two strings without leaking where they differ. Hashing first
+// gives both sides the same length, which timingSafeEqual requires.
+export function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+}
+
+// Password hashes are stored as `scrypt$<salt hex>$<hash hex>`; generate one
+// with `npm run hash-password`.
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString('hex')}$${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function createSessionToken(username: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const session: AdminSession = { username, issuedAt: now, expiresAt: now + SESSION_TTL_SECONDS };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifySessionToken(token: string | undefined): AdminSession | null {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) return null;
+
+  try {
+    const session: AdminSession = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof session.username !== 'string' || typeof session.issuedAt !== 'number' || typeof session.expiresAt !== 'number') return null;
+    if (session.expiresAt <= Math.floor(Date.now() / 1000)) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function setSessionCookie(res: NextApiResponse, token: string) {
+  res.setHeader('Set-Cookie', serialize(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV !== 'development',
+    sameSite: 'strict',
+    maxAge: SESSION_TTL_SECONDS,
+    path: '/',
+  }));
+}
+
+export function clearSessionCookie(res: NextApiResponse) {
+  res.setHeader('Set-Cookie', serialize(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV !== 'development',
+    sameSite: 'strict',
+    maxAge: 0,
+    path: '/',
+  }));
+}
+
+export function getAdminSession(req: NextApiRequest): AdminSession | null {
+  return verifySessionToken(req.cookies[SESSION_COOKIE]);
+}
+
+// Every admin API route starts with this. The account is looked up on each
+// request, so disabling it or resetting its password ends its sessions at
+// once. Returns the user, or responds with 401 (or 403 when the role is
+// below `minimumRole`) and returns null so the caller can simply `return`.
+export async function requireAdmin(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  minimumRole: AdminRole = 'viewer',
+): Promise<AdminUser | null> {
+  const session = getAdminSession(req);
+  const { data: account, error } = session
+    ? await supabaseAdmin
+      .from('admin_accounts')
+      .select('id, role, disabled_at, password_changed_at')
+      .eq('username', session.username)
+      .maybeSingle<{ id: number; role: AdminRole; disabled_at: string | null; password_changed_at: string | null }>()
+    : { data: null, error: null };
+  if (error) {
+    console.error('Error looking up admin account:', error);
+    res.status(500).json({ message: 'Failed to check admin session' });
+    return null;
+  }
+
+  const passwordChangedAt = account?.password_changed_at ? Date.parse(account.password_changed_at) / 1000 : 0;
+  if (!session || !account || account.disabled_at || passwordChangedAt > session.issuedAt) {
+    res.status(401).json({ authenticated: false, message: 'Not authenticated' });
+    return null;
+  }
+  if (!hasRole(account.role, minimumRole)) {
+    res.status(403).json({ message: 'Your role does not allow this.' });
+    return null;
+  }
+  return { ...session, id: account.id, role: account.role };
+}
+
+// One-time links for setting a password, sent when an account is invited
+// or its password is reset. Only the SHA-256 of the token is stored.
+export function hashSetupToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function createSetupToken() {
+  const token = randomBytes(32).toString('base64url');
+  return {
+    token,
+    hash: hashSetupToken(token),
+    expiresAt: new Date(Date.now() + SETUP_LINK_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+export function setupLinkUrl(token: string): string {
+  return emailLinkUrl(`/admin/setup?token=${encodeURIComponent(token)}`);
+}
+
+export async function sendSetupLink(account: { username: string; email: string }, url: string, purpose: 'invite' | 'reset') {
+  await sendMail({
+    to: account.email,
+    subject: purpose === 'invite' ? 'Your gallery admin account' : 'Reset your gallery admin password',
+    text: `${purpose === 'invite'
+      ? `You have been invited to the /Imagine AI Gallery admin as "${account.username}".`
+      : `The password of your /Imagine AI Gallery admin account "${account.username}" was reset.`} `
+      + `Choose a password here:\n\n${url}\n\nThe link works once, for 3 days.\n`,
+  });
+}
+
+export const ADMIN_ACCOUNT_COLUMNS = 'id, username, email, role, password_hash, disabled_at, invited_by, last_login_at, created_at';
+
+export type AdminAccountRow = Omit<AdminAccount, 'has_password'> & { password_hash: string | null };
+
+// Drops the password hash from an admin_accounts row before it is sent to
+// the browser.
+export function toAdminAccount({ password_hash, ...account }: AdminAccountRow): AdminAccount {
+  return { ...account, has_password: password_hash !== null };
+}
@@ -0,0 +1,89 @@
+import { MEDIA_TYPE_LABELS, first, parseDate, parsePositiveInt } from './feedQuery';
+import type { MediaTypeFilter, QueryValue } from './feedQuery';
+import type { AdminImage } from './types';
+
+// Search, filter, sort and paging options of the admin entries table,
+// shared by pages/admin.tsx and /api/admin/images.
+
+export const ADMIN_SORT_COLUMNS = ['created_at', 'title', 'artist_name', 'media_type', 'status', 'num_votes'] as const;
+
+export type AdminSortColumn = typeof ADMIN_SORT_COLUMNS[number];
+
+export const ADMIN_PAGE_SIZES = [25, 50, 100] as const;
+
+// Enough for the moderation queue and for looking up entries by id.
+export const MAX_ADMIN_PAGE_SIZE = 200;
+
+export interface AdminImageQuery {
+  q: string | null; // matched against title, artist name and email
+  status: AdminImage['status'] | null;
+  hidden: boolean | null;
+  mediaType: MediaTypeFilter | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+  reported: boolean; // only entries with open reports
+  ids: number[] | null;
+  sort: AdminSortColumn;
+  ascending: boolean;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export const DEFAULT_ADMIN_IMAGE_QUERY: AdminImageQuery = {
+  q: null,
+  status: null,
+  hidden: null,
+  mediaType: null,
+  from: null,
+  to: null,
+  reported: false,
+  ids: null,
+  sort: 'created_at',
+  ascending: false,
+  page: 1,
+  pageSize: ADMIN_PAGE_SIZES[0],
+};
+
+const STATUSES: AdminImage['status'][] = ['pending', 'approved', 'rejected'];
+
+// Unknown or malformed values fall back to the defaults.
+export function parseAdminImageQuery(query: Record<string, QueryValue>): AdminImageQuery {
+  const q = first(query.q)?.trim().slice(0, 200);
+  const status = first(query.status);
+  const hidden = first(query.hidden);
+  const mediaType = first(query.type);
+  const sort = first(query.sort);
+  const ids = first(query.ids)?.split(',').map(Number).filter(id => Number.isInteger(id) && id > 0);
+  return {
+    q: q || null,
+    status: STATUSES.find(value => value === status) ?? null,
+    hidden: hidden === 'true' ? true : hidden === 'false' ? false : null,
+    mediaType: mediaType && mediaType in MEDIA_TYPE_LABELS ? mediaType as MediaTypeFilter : null,
+    from: parseDate(query.from),
+    to: parseDate(query.to),
+    reported: first(query.reported) === 'true',
+    ids: ids && ids.length > 0 ? ids.slice(0, MAX_ADMIN_PAGE_SIZE) : null,
+    sort: ADMIN_SORT_COLUMNS.find(column => column === sort) ?? DEFAULT_ADMIN_IMAGE_QUERY.sort,
+    ascending: first(query.order) === 'asc',
+    page: parsePositiveInt(query.page) ?? 1,
+    pageSize: Math.min(parsePositiveInt(query.pageSize) ?? DEFAULT_ADMIN_IMAGE_QUERY.pageSize, MAX_ADMIN_PAGE_SIZE),
+  };
+}
+
+// The inverse of parseAdminImageQuery, leaving out defaults.
+export function adminImageQueryToParams(query: AdminImageQuery): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.q) params.q = query.q;
+  if (query.status) params.status = query.status;
+  if (query.hidden !== null) params.hidden = String(query.hidden);
+  if (query.mediaType) params.type = query.mediaType;
+  if (query.from) params.from = query.from;
+  if (query.to) params.to = query.to;
+  if (query.reported) params.reported = 'true';
+  if (query.ids) params.ids = query.ids.join(',');
+  if (query.sort !== DEFAULT_ADMIN_IMAGE_QUERY.sort) params.sort = query.sort;
+  if (query.ascending) params.order = 'asc';
+  if (query.page !== 1) params.page = String(query.page);
+  if (query.pageSize !== DEFAULT_ADMIN_IMAGE_QUERY.pageSize) params.pageSize = String(query.pageSize);
+  return params;
+}
@@ -0,0 +1,70 @@
+import type { AdminImageQuery } from './adminImageQuery';
+import { nextDay, startOfDay } from './feed';
+import { supabaseAdmin } from './supabaseAdmin';
+import type { AdminImage } from './types';
+
+export interface RatingDistribution {
+  image_id: number;
+  one_star: number;
+  two_stars: number;
+  three_stars: number;
+  four_stars: number;
+  five_stars: number;
+}
+
+// A pattern for PostgREST's `or` filter: LIKE wildcards in the search text
+// are escaped, then the value is quoted so commas and parentheses in it
+// don't end the filter.
+function containsPattern(text: string): string {
+  const like = `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+  return `"${like.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+// One page of entries for the admin table, with the total number of
+// matches and the rating histograms of the page's entries.
+export async function fetchAdminImages(adminQuery: AdminImageQuery) {
+  let ids = adminQuery.ids;
+  if (adminQuery.reported) {
+    const { data: reported, error } = await supabaseAdmin
+      .from('image_report_summary')
+      .select('image_id')
+      .returns<{ image_id: number }[]>();
+    if (error) throw error;
+    const reportedIds = reported.map(row => row.image_id);
+    ids = ids ? ids.filter(id => reportedIds.includes(id)) : reportedIds;
+  }
+  if (ids && ids.length === 0) {
+    return { images: [], total: 0, distributions: [] };
+  }
+
+  const start = (adminQuery.page - 1) * adminQuery.pageSize;
+  let query = supabaseAdmin
+    .from('images')
+    .select('*', { count: 'exact' })
+    .order(adminQuery.sort, { ascending: adminQuery.ascending })
+    .order('id', { ascending: adminQuery.ascending })
+    .range(start, start + adminQuery.pageSize - 1);
+
+  if (ids) query = query.in('id', ids);
+  if (adminQuery.q) {
+    const pattern = containsPattern(adminQuery.q);
+    query = query.or(`title.ilike.${pattern},artist_name.ilike.${pattern},artist.ilike.${pattern}`);
+  }
+  if (adminQuery.status) query = query.eq('status', adminQuery.status);
+  if (adminQuery.hidden !== null) query = query.eq('hidden', adminQuery.hidden);
+  if (adminQuery.mediaType) query = query.eq('media_type', adminQuery.mediaType);
+  if (adminQuery.from) query = query.gte('created_at', startOfDay(adminQuery.from));
+  if (adminQuery.to) query = query.lt('created_at', nextDay(adminQuery.to));
+
+  const { data, count, error } = await query.returns<AdminImage[]>();
+  if (error) throw error;
+
+  const { data: distributions, error: distributionError } = await supabaseAdmin
+    .from('image_rating_distribution')
+    .select('*')
+    .in('image_id', data.map(image => image.id))
+    .returns<RatingDistribution[]>();
+  if (distributionError) throw distributionError;
+
+  return { images: data, total: count ?? 0, distributions };
+}
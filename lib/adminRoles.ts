@@ -0,0 +1,36 @@
+// Admin roles, from least to most access: viewers can look at everything,
+// moderators can also change content, owners can also manage accounts.
+export const ADMIN_ROLES = {
+  viewer: 'Viewer',
+  moderator: 'Moderator',
+  owner: 'Owner',
+} as const;
+
+export type AdminRole = keyof typeof ADMIN_ROLES;
+
+const ROLE_ORDER: AdminRole[] = ['viewer', 'moderator', 'owner'];
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && value in ADMIN_ROLES;
+}
+
+export function hasRole(role: AdminRole, minimum: AdminRole): boolean {
+  return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(minimum);
+}
+
+// An admin account as listed to owners; never includes password or setup
+// token hashes.
+export interface AdminAccount {
+  id: number;
+  username: string;
+  email: string;
+  role: AdminRole;
+  has_password: boolean; // false until the setup link is used
+  disabled_at: string | null;
+  invited_by: string | null;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+export const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 12;
@@ -0,0 +1,34 @@
+import type {
+  ActivityPoint,
+  AnalyticsBucket,
+  ChallengeParticipation,
+  MediaTypeCount,
+  TopArtist,
+  TopImage,
+} from './analyticsQuery';
+import { nextDay, startOfDay } from './feed';
+import { supabaseAdmin } from './supabaseAdmin';
+
+// Aggregates for the admin analytics page, computed by the analytics_*
+// database functions over the dates from and to (inclusive, UTC).
+export async function fetchAnalytics(from: string, to: string, bucket: AnalyticsBucket, topLimit: number) {
+  const period = { p_from: startOfDay(from), p_to: nextDay(to) };
+  const [activity, topImages, topArtists, mediaTypes, challenges] = await Promise.all([
+    supabaseAdmin.rpc('analytics_activity', { ...period, p_bucket: bucket }).returns<ActivityPoint[]>(),
+    supabaseAdmin.rpc('analytics_top_images', { ...period, p_limit: topLimit }).returns<TopImage[]>(),
+    supabaseAdmin.rpc('analytics_top_artists', { ...period, p_limit: topLimit }).returns<TopArtist[]>(),
+    supabaseAdmin.rpc('analytics_media_types', period).returns<MediaTypeCount[]>(),
+    supabaseAdmin.rpc('analytics_challenges', period).returns<ChallengeParticipation[]>(),
+  ]);
+
+  for (const { error } of [activity, topImages, topArtists, mediaTypes, challenges]) {
+    if (error) throw error;
+  }
+  return {
+    activity: activity.data ?? [],
+    topImages: topImages.data ?? [],
+    topArtists: topArtists.data ?? [],
+    mediaTypes: mediaTypes.data ?? [],
+    challenges: challenges.data ?? [],
+  };
+}
@@ -0,0 +1,113 @@
+import { first, parseDate } from './feedQuery';
+import type { MediaTypeFilter, QueryValue } from './feedQuery';
+
+// Period and report options of the admin analytics page, shared by
+// pages/admin/analytics.tsx and /api/admin/analytics.
+
+export const ANALYTICS_BUCKETS = {
+  day: 'Per day',
+  week: 'Per week',
+} as const;
+
+export type AnalyticsBucket = keyof typeof ANALYTICS_BUCKETS;
+
+// The tables the page shows, each downloadable as CSV.
+export const ANALYTICS_REPORTS = {
+  activity: 'Submissions and votes',
+  top_images: 'Top artworks',
+  top_artists: 'Top artists',
+  media_types: 'Media types',
+  challenges: 'Challenge participation',
+} as const;
+
+export type AnalyticsReport = keyof typeof ANALYTICS_REPORTS;
+
+// Without dates, the page covers the last 30 days.
+export const DEFAULT_ANALYTICS_DAYS = 30;
+
+export interface AnalyticsQuery {
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+  bucket: AnalyticsBucket;
+}
+
+export const DEFAULT_ANALYTICS_QUERY: AnalyticsQuery = { from: null, to: null, bucket: 'day' };
+
+export interface ActivityPoint {
+  bucket: string; // YYYY-MM-DD, the first day of the bucket
+  submissions: number;
+  votes: number;
+  average_rating: number | null;
+}
+
+export interface TopImage {
+  id: number;
+  title: string;
+  artist_name: string;
+  media_type: MediaTypeFilter;
+  votes: number;
+  average_rating: number;
+}
+
+export interface TopArtist {
+  artist_slug: string;
+  artist_name: string;
+  submissions: number;
+  votes: number;
+  average_rating: number | null;
+}
+
+export interface MediaTypeCount {
+  media_type: MediaTypeFilter;
+  submissions: number;
+}
+
+export interface ChallengeParticipation {
+  id: number;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  entries: number;
+  artists: number;
+  votes: number;
+}
+
+export interface AnalyticsData {
+  from: string;
+  to: string;
+  bucket: AnalyticsBucket;
+  activity: ActivityPoint[];
+  topImages: TopImage[];
+  topArtists: TopArtist[];
+  mediaTypes: MediaTypeCount[];
+  challenges: ChallengeParticipation[];
+}
+
+// Unknown or malformed values fall back to the defaults.
+export function parseAnalyticsQuery(query: Record<string, QueryValue>): AnalyticsQuery {
+  const bucket = first(query.bucket);
+  return {
+    from: parseDate(query.from),
+    to: parseDate(query.to),
+    bucket: bucket && bucket in ANALYTICS_BUCKETS ? bucket as AnalyticsBucket : 'day',
+  };
+}
+
+// The inverse of parseAnalyticsQuery, leaving out defaults.
+export function analyticsQueryToParams(query: AnalyticsQuery): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.from) params.from = query.from;
+  if (query.to) params.to = query.to;
+  if (query.bucket !== 'day') params.bucket = query.bucket;
+  return params;
+}
+
+// The dates the query covers, filling in missing ones relative to today
+// (UTC). An open start goes back DEFAULT_ANALYTICS_DAYS from the end.
+export function analyticsPeriod(query: AnalyticsQuery, now = new Date()): { from: string; to: string } {
+  const to = query.to ?? now.toISOString().slice(0, 10);
+  if (query.from) return { from: query.from, to };
+  const from = new Date(`${to}T00:00:00Z`);
+  from.setUTCDate(from.getUTCDate() - (DEFAULT_ANALYTICS_DAYS - 1));
+  return { from: from.toISOString().slice(0, 10), to };
+}
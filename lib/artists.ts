@@ -0,0 +1,46 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+export function slugify(name: string): string {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || 'artist';
+}
+
+// Postgres unique_violation.
+const UNIQUE_VIOLATION = '23505';
+
+// The slug for a submitter: the one already claimed for their email in
+// artist_slugs, or the first free variant of their name (`ana`, `ana-2`, …)
+// otherwise. Claiming is an insert, so a slug taken concurrently shows up
+// as a unique violation and the next variant is tried.
+export async function resolveArtistSlug(email: string, artistName: string): Promise<string> {
+  const claimedSlug = async () => {
+    const { data, error } = await supabaseAdmin
+      .from('artist_slugs')
+      .select('slug')
+      .eq('email', email)
+      .maybeSingle<{ slug: string }>();
+    if (error) throw error;
+    return data?.slug ?? null;
+  };
+
+  const existing = await claimedSlug();
+  if (existing) return existing;
+
+  const base = slugify(artistName);
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? base : `${base}-${n}`;
+    const { error } = await supabaseAdmin.from('artist_slugs').insert({ email, slug: candidate });
+    if (!error) return candidate;
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+    // A concurrent submission from the same email may have won instead.
+    const claimed = await claimedSlug();
+    if (claimed) return claimed;
+  }
+}
@@ -0,0 +1,94 @@
+import { first, parseDate, parsePositiveInt } from './feedQuery';
+import type { QueryValue } from './feedQuery';
+
+// Entries of the admin audit log, shared by the audit tab of
+// pages/admin.tsx and /api/admin/audit.
+
+export const AUDIT_ACTIONS = {
+  login: 'Logged in',
+  login_failed: 'Failed login',
+  logout: 'Logged out',
+  create: 'Created',
+  edit: 'Edited',
+  hide: 'Hid',
+  unhide: 'Unhid',
+  delete: 'Deleted',
+  approve: 'Approved',
+  reject: 'Rejected',
+  dismiss_reports: 'Dismissed reports',
+  uphold_reports: 'Upheld reports',
+  invite: 'Invited',
+  change_role: 'Changed role',
+  disable: 'Disabled',
+  enable: 'Enabled',
+  reset_password: 'Reset password',
+  set_password: 'Set password',
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+export const AUDIT_TARGET_TYPES = ['image', 'comment', 'challenge', 'admin'] as const;
+
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+export interface AuditEntry {
+  id: number;
+  admin_username: string;
+  action: AuditAction;
+  target_type: AuditTargetType | null;
+  target_id: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export interface AuditQuery {
+  admin: string | null;
+  action: AuditAction | null;
+  targetType: AuditTargetType | null;
+  targetId: number | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+  page: number; // 1-based
+}
+
+export const DEFAULT_AUDIT_QUERY: AuditQuery = {
+  admin: null,
+  action: null,
+  targetType: null,
+  targetId: null,
+  from: null,
+  to: null,
+  page: 1,
+};
+
+// Unknown or malformed values fall back to the defaults.
+export function parseAuditQuery(query: Record<string, QueryValue>): AuditQuery {
+  const admin = first(query.admin)?.trim().slice(0, 100);
+  const action = first(query.action);
+  const targetType = first(query.targetType);
+  return {
+    admin: admin || null,
+    action: action && action in AUDIT_ACTIONS ? action as AuditAction : null,
+    targetType: AUDIT_TARGET_TYPES.find(type => type === targetType) ?? null,
+    targetId: parsePositiveInt(query.targetId),
+    from: parseDate(query.from),
+    to: parseDate(query.to),
+    page: parsePositiveInt(query.page) ?? 1,
+  };
+}
+
+// The inverse of parseAuditQuery, leaving out defaults.
+export function auditQueryToParams(query: AuditQuery): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.admin) params.admin = query.admin;
+  if (query.action) params.action = query.action;
+  if (query.targetType) params.targetType = query.targetType;
+  if (query.targetId) params.targetId = String(query.targetId);
+  if (query.from) params.from = query.from;
+  if (query.to) params.to = query.to;
+  if (query.page !== 1) params.page = String(query.page);
+  return params;
+}
@@ -0,0 +1,59 @@
+import type { AuditAction, AuditEntry, AuditQuery, AuditTargetType } from './audit';
+import { nextDay, startOfDay } from './feed';
+import { supabaseAdmin } from './supabaseAdmin';
+
+export interface AuditRecord {
+  action: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: number;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Appends to the audit log. Called after the action succeeded, so a failure
+// here is logged rather than failing a change that already happened.
+export async function recordAudit(adminUsername: string, records: AuditRecord | AuditRecord[]): Promise<void> {
+  const rows = (Array.isArray(records) ? records : [records]).map(record => ({
+    admin_username: adminUsername,
+    action: record.action,
+    target_type: record.targetType ?? null,
+    target_id: record.targetId ?? null,
+    before: record.before ?? null,
+    after: record.after ?? null,
+  }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('audit_log').insert(rows);
+  if (error) console.error('Error writing audit log:', error, rows);
+}
+
+// What the log keeps of an entry that is deleted.
+export const IMAGE_AUDIT_FIELDS = [
+  'title', 'description', 'artist_name', 'artist', 'media_type', 'file_path', 'youtube_link', 'status', 'hidden', 'created_at',
+] as const;
+
+// The given fields of a row, for the before/after values of an entry.
+export function auditFields<T extends object>(row: T, fields: readonly (keyof T)[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, row[field]]));
+}
+
+// Newest first, `limit` entries from `offset` on, with the total count.
+export async function fetchAuditLog(auditQuery: AuditQuery, { limit, offset }: { limit: number; offset: number }) {
+  let query = supabaseAdmin
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (auditQuery.admin) query = query.eq('admin_username', auditQuery.admin);
+  if (auditQuery.action) query = query.eq('action', auditQuery.action);
+  if (auditQuery.targetType) query = query.eq('target_type', auditQuery.targetType);
+  if (auditQuery.targetId) query = query.eq('target_id', auditQuery.targetId);
+  if (auditQuery.from) query = query.gte('created_at', startOfDay(auditQuery.from));
+  if (auditQuery.to) query = query.lt('created_at', nextDay(auditQuery.to));
+
+  const { data, count, error } = await query.returns<AuditEntry[]>();
+  if (error) throw error;
+  return { entries: data, total: count ?? 0 };
+}
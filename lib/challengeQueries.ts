@@ -0,0 +1,30 @@
+import { CHALLENGE_COLUMNS, Challenge } from './challenges';
+import { supabaseAdmin } from './supabaseAdmin';
+
+// Announces the winners of every challenge whose deadline has passed.
+// There is no scheduler, so pages and APIs that show challenges or entries
+// with their winner badges (the feed, search and artwork pages) call this
+// first; finalize_challenge makes repeated calls cheap and safe.
+export async function finalizeEndedChallenges(): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('challenges')
+    .select('id')
+    .lte('ends_at', new Date().toISOString())
+    .is('winners_announced_at', null);
+  if (error) throw error;
+
+  for (const { id } of data) {
+    const { error: finalizeError } = await supabaseAdmin.rpc('finalize_challenge', { p_challenge_id: id });
+    if (finalizeError) throw finalizeError;
+  }
+}
+
+export async function fetchChallenge(id: number): Promise<Challenge | null> {
+  const { data, error } = await supabaseAdmin
+    .from('challenges')
+    .select(CHALLENGE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle<Challenge>();
+  if (error) throw error;
+  return data;
+}
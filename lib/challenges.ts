@@ -0,0 +1,22 @@
+// Shared by pages and API routes; server-only queries live in challengeQueries.ts.
+
+export interface Challenge {
+  id: number;
+  title: string; // the theme
+  description: string;
+  starts_at: string;
+  ends_at: string;
+  winners_announced_at: string | null;
+}
+
+export type ChallengePhase = 'upcoming' | 'open' | 'closed';
+
+export const CHALLENGE_COLUMNS = 'id, title, description, starts_at, ends_at, winners_announced_at';
+
+export function challengePhase(challenge: Pick<Challenge, 'starts_at' | 'ends_at'>, now = Date.now()): ChallengePhase {
+  if (now < Date.parse(challenge.starts_at)) return 'upcoming';
+  if (now < Date.parse(challenge.ends_at)) return 'open';
+  return 'closed';
+}
+
+export const RANK_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd' };
@@ -0,0 +1,73 @@
+// Comment types and the spam filter shared by /api/comments and the
+// comment thread on the artwork page.
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_COMMENT_NAME_LENGTH = 60;
+
+export interface PublicComment {
+  id: number;
+  parent_id: number | null;
+  author_name: string;
+  body: string;
+  created_at: string;
+}
+
+export interface AdminComment extends PublicComment {
+  image_id: number;
+  voter_id: string | null;
+  hidden: boolean;
+  images: { title: string } | null;
+}
+
+export const PUBLIC_COMMENT_COLUMNS = 'id, parent_id, author_name, body, created_at';
+
+export interface CommentThread extends PublicComment {
+  replies: CommentThread[];
+}
+
+// Nests replies under their parents, oldest first. Replies whose parent is
+// not in the list (because it was hidden) are left out with it.
+export function buildThreads(comments: PublicComment[]): CommentThread[] {
+  const threads = new Map<number, CommentThread>();
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  sorted.forEach(comment => threads.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentThread[] = [];
+  sorted.forEach(comment => {
+    const thread = threads.get(comment.id)!;
+    if (comment.parent_id === null) roots.push(thread);
+    else threads.get(comment.parent_id)?.replies.push(thread);
+  });
+  return roots;
+}
+
+// Catches the obvious cases only; admins handle the rest from the comments
+// tab. English and Spanish, since the club posts in both.
+const BLOCKED_WORDS = [
+  'fuck', 'fucking', 'shit', 'cunt', 'bitch', 'asshole', 'motherfucker', 'nigger', 'faggot', 'retard',
+  'puta', 'puto', 'mierda', 'pendejo', 'pendeja', 'concha', 'verga', 'pelotudo', 'boludo', 'culiao', 'maricon', 'gilipollas', 'cabron',
+];
+
+const LINK_PATTERN = /(https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|io|ru|xyz|top|info|biz|ly|me)\b)/i;
+
+// Lowercase, without accents, with common letter-for-digit swaps undone.
+function normalizeForFilter(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[0@]/g, 'o')
+    .replace(/1/g, 'i')
+    .replace(/3/g, 'e')
+    .replace(/4/g, 'a')
+    .replace(/[5$]/g, 's');
+}
+
+// The reason a comment can't be posted, or null if it passes.
+export function checkCommentText(text: string): string | null {
+  if (LINK_PATTERN.test(text)) return 'Links are not allowed in comments.';
+  const words = normalizeForFilter(text).split(/[^a-z]+/);
+  if (words.some(word => BLOCKED_WORDS.includes(word))) return 'Please keep comments friendly.';
+  if (/(.)\1{9,}/.test(text)) return 'That looks like spam.';
+  return null;
+}
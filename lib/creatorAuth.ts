@@ -0,0 +1,73 @@
+import { createHmac } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { safeEqual } from './adminAuth';
+import { emailLinkUrl, sendMail } from './mailer';
+
+// Submitters prove they own their email with a magic link. The token in the
+// link is signed like the admin session (an HMAC over email and expiry), so
+// nothing is stored; it both confirms the address and opens the "my
+// submissions" page until it expires.
+const LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface CreatorToken {
+  email: string;
+  expiresAt: number; // unix seconds
+}
+
+function linkSecret(): string {
+  const secret = process.env.CREATOR_LINK_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('CREATOR_LINK_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', linkSecret()).update(payload).digest('base64url');
+}
+
+export function createCreatorToken(email: string): string {
+  const token: CreatorToken = { email, expiresAt: Math.floor(Date.now() / 1000) + LINK_TTL_SECONDS };
+  const payload = Buffer.from(JSON.stringify(token)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyCreatorToken(token: string | undefined): CreatorToken | null {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) return null;
+
+  try {
+    const parsed: CreatorToken = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof parsed.email !== 'string' || typeof parsed.expiresAt !== 'number') return null;
+    if (parsed.expiresAt <= Math.floor(Date.now() / 1000)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// Creator API routes take the token as `Authorization: Bearer <token>`.
+// Returns the verified email, or responds with 401 and returns null.
+export function requireCreator(req: NextApiRequest, res: NextApiResponse): string | null {
+  const header = req.headers.authorization;
+  const token = verifyCreatorToken(header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+  if (!token) {
+    res.status(401).json({ message: 'This link is invalid or has expired. Request a new one.' });
+    return null;
+  }
+  return token.email;
+}
+
+export async function sendMagicLink(email: string, purpose: 'verify' | 'manage') {
+  const url = emailLinkUrl(`/my-submissions?token=${encodeURIComponent(createCreatorToken(email))}`);
+  const intro = purpose === 'verify'
+    ? 'Thanks for your submission to the /Imagine AI Gallery! Confirm your email to publish it:'
+    : 'Here is your link to manage your submissions on the /Imagine AI Gallery:';
+  await sendMail({
+    to: email,
+    subject: purpose === 'verify' ? 'Confirm your gallery submission' : 'Manage your gallery submissions',
+    text: `${intro}\n\n${url}\n\nThe link also lets you edit or delete your entries and works for 7 days. `
+      + 'If you did not submit anything, you can ignore this email.\n',
+  });
+}
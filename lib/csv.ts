@@ -0,0 +1,15 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes a value when needed. Values starting with a formula character get
+// a leading apostrophe, so user-supplied text such as a title can't run as
+// a formula when the file is opened in a spreadsheet.
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,179 @@
+// Parses video links people paste into the upload form into a canonical
+// provider + id, and builds the privacy-friendly embed for them.
+
+export type EmbedProvider = 'youtube' | 'youtube_playlist' | 'vimeo' | 'dailymotion';
+
+export interface Embed {
+  provider: EmbedProvider;
+  // Vimeo unlisted videos need their private hash as well; it is kept in
+  // the id as `<video id>:<hash>`.
+  id: string;
+  startSeconds: number | null;
+}
+
+export const SUPPORTED_EMBED_HOSTS = 'YouTube, Vimeo or Dailymotion';
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const YOUTUBE_PLAYLIST_ID = /^[\w-]{10,}$/;
+
+// Accepts `90`, `90s`, `1m30s`, `1h2m3s` and `01:30`.
+export function parseTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value) || null;
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units) {
+    const seconds = Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0);
+    return seconds || null;
+  }
+  const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const seconds = Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+    return seconds || null;
+  }
+  return null;
+}
+
+function hashParam(url: URL, name: string): string | null {
+  return new URLSearchParams(url.hash.replace(/^#/, '')).get(name);
+}
+
+function parseYouTube(url: URL, host: string): Embed | null {
+  const start = parseTimestamp(url.searchParams.get('t') ?? url.searchParams.get('start') ?? hashParam(url, 't'));
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  let id: string | undefined;
+  if (host === 'youtu.be') {
+    id = segments[0];
+  } else if (segments[0] === 'watch') {
+    id = url.searchParams.get('v') ?? undefined;
+  } else if (['shorts', 'embed', 'live', 'v', 'e'].includes(segments[0])) {
+    id = segments[1];
+  }
+
+  if (id && YOUTUBE_ID.test(id)) {
+    return { provider: 'youtube', id, startSeconds: start };
+  }
+
+  const list = url.searchParams.get('list');
+  if (list && YOUTUBE_PLAYLIST_ID.test(list) && (segments[0] === 'playlist' || id === 'videoseries')) {
+    return { provider: 'youtube_playlist', id: list, startSeconds: null };
+  }
+  return null;
+}
+
+function parseVimeo(url: URL, host: string): Embed | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  // player.vimeo.com/video/<id>?h=<hash>, vimeo.com/<id>/<hash>,
+  // vimeo.com/channels/<name>/<id>, vimeo.com/groups/<name>/videos/<id>;
+  // other paths (showcases, albums, users) are not single videos.
+  let videoId: string | undefined;
+  let pathHash: string | undefined;
+  if (host === 'player.vimeo.com') {
+    if (segments.length === 2 && segments[0] === 'video') videoId = segments[1];
+  } else if (segments.length === 3 && segments[0] === 'channels') {
+    videoId = segments[2];
+  } else if (segments.length === 4 && segments[0] === 'groups' && segments[2] === 'videos') {
+    videoId = segments[3];
+  } else if (segments.length === 1 || segments.length === 2) {
+    [videoId, pathHash] = segments;
+  }
+  if (!videoId || !/^\d+$/.test(videoId)) return null;
+  if (pathHash && !/^[0-9a-f]+$/i.test(pathHash)) return null;
+
+  const privateHash = url.searchParams.get('h') ?? pathHash;
+  const id = privateHash && /^[0-9a-f]+$/i.test(privateHash) ? `${videoId}:${privateHash}` : videoId;
+  return { provider: 'vimeo', id, startSeconds: parseTimestamp(hashParam(url, 't')) };
+}
+
+function parseDailymotion(url: URL, host: string): Embed | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  // dai.ly/<id>, dailymotion.com/video/<id>, dailymotion.com/embed/video/<id>;
+  // other paths (playlists, channels) are not videos.
+  const videoAt = segments.indexOf('video');
+  if (host !== 'dai.ly' && videoAt < 0) return null;
+  const raw = host === 'dai.ly' ? segments[0] : segments[videoAt + 1];
+  const id = raw?.split('_')[0];
+  if (!id || !/^[a-z0-9]+$/i.test(id)) return null;
+  return { provider: 'dailymotion', id, startSeconds: parseTimestamp(url.searchParams.get('start')) };
+}
+
+// Returns null for anything that isn't a supported video link.
+export function parseEmbedLink(input: string): Embed | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(input.trim()) ? input.trim() : `https://${input.trim()}`);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^(www|m|music)\./, '');
+
+  if (['youtube.com', 'youtu.be', 'youtube-nocookie.com'].includes(host)) return parseYouTube(url, host);
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') return parseVimeo(url, host);
+  if (host === 'dailymotion.com' || host === 'dai.ly') return parseDailymotion(url, host);
+  return null;
+}
+
+// The iframe URL. It is only loaded after the visitor clicks the thumbnail,
+// so it asks the player to start right away.
+export function embedUrl(embed: Embed): string {
+  const start = embed.startSeconds ? Math.floor(embed.startSeconds) : null;
+  switch (embed.provider) {
+    case 'youtube':
+      return `https://www.youtube-nocookie.com/embed/${embed.id}?autoplay=1${start ? `&start=${start}` : ''}`;
+    case 'youtube_playlist':
+      return `https://www.youtube-nocookie.com/embed/videoseries?list=${embed.id}&autoplay=1`;
+    case 'vimeo': {
+      const [videoId, privateHash] = embed.id.split(':');
+      return `https://player.vimeo.com/video/${videoId}?dnt=1&autoplay=1${privateHash ? `&h=${privateHash}` : ''}${start ? `#t=${start}s` : ''}`;
+    }
+    case 'dailymotion':
+      return `https://www.dailymotion.com/embed/video/${embed.id}?autoplay=1${start ? `&start=${start}` : ''}`;
+  }
+}
+
+// Thumbnail URLs that can be derived from the id alone. Vimeo needs an
+// oEmbed lookup, done at submit time by fetchEmbedThumbnail.
+export function staticThumbnailUrl(embed: Embed): string | null {
+  switch (embed.provider) {
+    case 'youtube':
+      return `https://i.ytimg.com/vi/${embed.id}/hqdefault.jpg`;
+    case 'dailymotion':
+      return `https://www.dailymotion.com/thumbnail/video/${embed.id}`;
+    default:
+      return null;
+  }
+}
+
+export async function fetchEmbedThumbnail(embed: Embed, originalUrl: string): Promise<string | null> {
+  if (embed.provider !== 'vimeo') return staticThumbnailUrl(embed);
+  try {
+    const response = await fetch(`https://vimeo.com/api/oembed.json?url=${encodeURIComponent(originalUrl)}`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return null;
+    const { thumbnail_url } = await response.json();
+    return typeof thumbnail_url === 'string' ? thumbnail_url : null;
+  } catch (error) {
+    console.error('Error fetching Vimeo thumbnail:', error);
+    return null;
+  }
+}
+
+interface EmbedRecord {
+  youtube_link: string | null;
+  embed_provider: EmbedProvider | null;
+  embed_id: string | null;
+  embed_start_seconds: number | null;
+  embed_thumbnail_url: string | null;
+}
+
+// The embed stored on an image record, falling back to parsing the raw
+// link for entries submitted before links were normalized.
+export function embedFromRecord(record: EmbedRecord): { embed: Embed; thumbnailUrl: string | null } | null {
+  if (record.embed_provider && record.embed_id) {
+    const embed = { provider: record.embed_provider, id: record.embed_id, startSeconds: record.embed_start_seconds };
+    return { embed, thumbnailUrl: record.embed_thumbnail_url ?? staticThumbnailUrl(embed) };
+  }
+  const embed = record.youtube_link ? parseEmbedLink(record.youtube_link) : null;
+  return embed ? { embed, thumbnailUrl: staticThumbnailUrl(embed) } : null;
+}
@@ -0,0 +1,130 @@
+import { finalizeEndedChallenges } from './challengeQueries';
+import { supabaseAdmin } from './supabaseAdmin';
+import type { FeedQuery, FeedSort } from './feedQuery';
+import type { SearchHighlights } from './search';
+import { PUBLIC_IMAGE_COLUMNS, PublicImage } from './types';
+
+export const FEED_PAGE_SIZE = 12;
+
+// Column each sort orders by, descending. Ties are broken by id so the
+// order is total and keyset paging never skips or repeats an entry.
+const SORT_COLUMNS: Record<FeedSort, string> = {
+  newest: 'created_at',
+  top_rated: 'avg_rating',
+  most_voted: 'num_votes',
+  trending: 'recent_votes',
+};
+
+type FeedRow = PublicImage & { avg_rating: number; recent_votes: number; comment_count: number };
+
+// An opaque cursor: the sort value and id of the last entry of a page.
+interface Cursor {
+  value: string | number;
+  id: number;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(raw: string | undefined): Cursor | null {
+  if (!raw) return null;
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if ((typeof cursor.value !== 'string' && typeof cursor.value !== 'number') || !Number.isInteger(cursor.id)) return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+export function startOfDay(date: string): string {
+  return `${date}T00:00:00Z`;
+}
+
+export function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString();
+}
+
+export async function fetchFeedPage(feedQuery: FeedQuery, cursor: Cursor | null) {
+  await finalizeEndedChallenges();
+  const column = SORT_COLUMNS[feedQuery.sort];
+  let query = supabaseAdmin
+    .from('image_feed')
+    .select(`${PUBLIC_IMAGE_COLUMNS}, avg_rating, recent_votes, comment_count`)
+    .order(column, { ascending: false })
+    .order('id', { ascending: false })
+    .limit(FEED_PAGE_SIZE);
+
+  if (feedQuery.mediaType) query = query.eq('media_type', feedQuery.mediaType);
+  if (feedQuery.from) query = query.gte('created_at', startOfDay(feedQuery.from));
+  if (feedQuery.to) query = query.lt('created_at', nextDay(feedQuery.to));
+  if (feedQuery.model) query = query.eq('model', feedQuery.model);
+  if (feedQuery.tag) query = query.contains('tags', [feedQuery.tag]);
+  if (cursor) {
+    const value = JSON.stringify(cursor.value); // quoted for PostgREST's filter syntax
+    query = query.or(`${column}.lt.${value},and(${column}.eq.${value},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query.returns<FeedRow[]>();
+  if (error) throw error;
+
+  const last = data[data.length - 1];
+  return {
+    images: data,
+    nextCursor: data.length === FEED_PAGE_SIZE ? encodeCursor({ value: last[column], id: last.id }) : null,
+  };
+}
+
+interface SearchMatch {
+  id: number;
+  rank: number;
+  title_highlight: string;
+  description_highlight: string;
+  artist_name_highlight: string;
+}
+
+// Search results come ranked by relevance, so the cursor is simply the
+// offset of the next page.
+export async function searchFeedPage(feedQuery: FeedQuery & { q: string }, offset: number) {
+  await finalizeEndedChallenges();
+  const { data: matches, error } = await supabaseAdmin.rpc('search_images', {
+    p_query: feedQuery.q,
+    p_media_type: feedQuery.mediaType,
+    p_from: feedQuery.from ? startOfDay(feedQuery.from) : null,
+    p_to: feedQuery.to ? nextDay(feedQuery.to) : null,
+    p_limit: FEED_PAGE_SIZE,
+    p_offset: offset,
+    p_model: feedQuery.model,
+    p_tag: feedQuery.tag,
+  });
+  if (error) throw error;
+
+  const ranked = matches as SearchMatch[];
+  const ids = ranked.map(match => match.id);
+  const { data: rows, error: rowsError } = await supabaseAdmin
+    .from('image_feed')
+    .select(`${PUBLIC_IMAGE_COLUMNS}, comment_count`)
+    .in('id', ids)
+    .returns<(PublicImage & { comment_count: number })[]>();
+  if (rowsError) throw rowsError;
+
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const images = ranked
+    .filter(match => rowsById.has(match.id))
+    .map(match => ({
+      ...rowsById.get(match.id),
+      highlights: {
+        title: match.title_highlight,
+        description: match.description_highlight,
+        artist_name: match.artist_name_highlight,
+      } satisfies SearchHighlights,
+    }));
+
+  return {
+    images,
+    nextCursor: ranked.length === FEED_PAGE_SIZE ? String(offset + FEED_PAGE_SIZE) : null,
+  };
+}
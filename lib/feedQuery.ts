@@ -0,0 +1,81 @@
+import { isGenerator, normalizeTag } from './promptMetadata';
+import type { Generator } from './promptMetadata';
+
+// Sort and filter options of the public feed, shared by the gallery page
+// (which keeps them in the query string) and /api/images.
+
+export const FEED_SORTS = {
+  newest: 'Newest',
+  top_rated: 'Top rated',
+  most_voted: 'Most voted',
+  trending: 'Trending (7 days)',
+} as const;
+
+export type FeedSort = keyof typeof FEED_SORTS;
+
+export const MEDIA_TYPE_LABELS = {
+  image: 'Images',
+  video: 'Videos',
+  embed: 'Video links',
+} as const;
+
+export type MediaTypeFilter = keyof typeof MEDIA_TYPE_LABELS;
+
+export interface FeedQuery {
+  q: string | null; // search text; results are then ordered by relevance
+  sort: FeedSort;
+  mediaType: MediaTypeFilter | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+  model: Generator | null;
+  tag: string | null; // normalized, see normalizeTag
+}
+
+export type QueryValue = string | string[] | undefined;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function first(value: QueryValue): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function parseDate(value: QueryValue): string | null {
+  const date = first(value);
+  return date && DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date)) ? date : null;
+}
+
+export function parsePositiveInt(value: QueryValue): number | null {
+  const number = Number(first(value));
+  return Number.isInteger(number) && number > 0 ? number : null;
+}
+
+// Unknown or malformed values fall back to the defaults.
+export function parseFeedQuery(query: Record<string, QueryValue>): FeedQuery {
+  const sort = first(query.sort);
+  const mediaType = first(query.type);
+  const q = first(query.q)?.trim().slice(0, 200);
+  const model = first(query.model);
+  const tag = normalizeTag(first(query.tag) ?? '');
+  return {
+    q: q || null,
+    sort: sort && sort in FEED_SORTS ? sort as FeedSort : 'newest',
+    mediaType: mediaType && mediaType in MEDIA_TYPE_LABELS ? mediaType as MediaTypeFilter : null,
+    from: parseDate(query.from),
+    to: parseDate(query.to),
+    model: model && isGenerator(model) ? model : null,
+    tag: tag || null,
+  };
+}
+
+// The inverse of parseFeedQuery, leaving out defaults to keep URLs short.
+export function feedQueryToParams(feedQuery: FeedQuery): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (feedQuery.q) params.q = feedQuery.q;
+  if (feedQuery.sort !== 'newest') params.sort = feedQuery.sort;
+  if (feedQuery.mediaType) params.type = feedQuery.mediaType;
+  if (feedQuery.from) params.from = feedQuery.from;
+  if (feedQuery.to) params.to = feedQuery.to;
+  if (feedQuery.model) params.model = feedQuery.model;
+  if (feedQuery.tag) params.tag = feedQuery.tag;
+  return params;
+}
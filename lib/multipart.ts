@@ -0,0 +1,51 @@
+import Busboy from 'busboy';
+import type { NextApiRequest } from 'next';
+
+export interface UploadedFile {
+  buffer: Buffer;
+  filename: string;
+  mimeType: string; // as claimed by the client; never trust it
+  truncated: boolean; // true when the file hit maxFileSize
+}
+
+export interface MultipartForm {
+  fields: Record<string, string>;
+  file: UploadedFile | null;
+}
+
+// Reads a multipart/form-data request into memory. Only the first file is
+// kept; it is cut off at maxFileSize bytes and flagged as truncated.
+// Routes using this must disable Next's body parser.
+export function parseMultipart(req: NextApiRequest, { maxFileSize }: { maxFileSize: number }): Promise<MultipartForm> {
+  return new Promise((resolve, reject) => {
+    let busboy: Busboy.Busboy;
+    try {
+      busboy = Busboy({ headers: req.headers, limits: { files: 1, fileSize: maxFileSize, fields: 20, fieldSize: 64 * 1024 } });
+    } catch (error) {
+      return reject(error);
+    }
+
+    const fields: Record<string, string> = {};
+    let file: UploadedFile | null = null;
+
+    busboy.on('field', (name, value) => {
+      fields[name] = value;
+    });
+    busboy.on('file', (_name, stream, info) => {
+      const chunks: Buffer[] = [];
+      const uploaded: UploadedFile = { buffer: Buffer.alloc(0), filename: info.filename, mimeType: info.mimeType, truncated: false };
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('limit', () => {
+        uploaded.truncated = true;
+      });
+      stream.on('end', () => {
+        uploaded.buffer = Buffer.concat(chunks);
+        file = uploaded;
+      });
+    });
+    busboy.on('error', reject);
+    busboy.on('close', () => resolve({ fields, file }));
+
+    req.pipe(busboy);
+  });
+}
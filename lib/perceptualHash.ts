@@ -0,0 +1,25 @@
+import sharp from 'sharp';
+
+// Hashes at most this many bits apart count as "probably the same picture"
+// (resized, re-encoded or lightly edited). Out of 64.
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+// Difference hash: shrink to 9×8 grayscale and record, for each row,
+// whether each pixel is darker than its right-hand neighbour. Returned as a
+// 64-character bit string, the literal form of the Postgres bit(64) column.
+export async function differenceHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let bits = '';
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      bits += pixels[row * 9 + col] < pixels[row * 9 + col + 1] ? '1' : '0';
+    }
+  }
+  return bits;
+}
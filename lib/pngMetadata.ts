@@ -0,0 +1,224 @@
+import { parseSeed } from './promptMetadata';
+import type { Generator, PromptMetadata } from './promptMetadata';
+
+// Reads the generation details that Stable Diffusion front ends embed in
+// PNG text chunks: AUTOMATIC1111 writes a `parameters` chunk, ComfyUI saves
+// its graph in API format as `prompt` (next to the editor's `workflow`). Runs in
+// the browser so the upload form can pre-fill fields before submitting; the
+// server strips these chunks from the stored file.
+
+export interface EmbeddedPrompt extends Partial<PromptMetadata> {
+  prompt?: string;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof DecompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// Text chunks keyed by keyword. Compressed chunks that can't be inflated
+// are skipped.
+export async function readPngTextChunks(bytes: Uint8Array): Promise<Record<string, string>> {
+  const chunks: Record<string, string> = {};
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return chunks;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const latin1 = new TextDecoder('latin1');
+  const utf8 = new TextDecoder('utf-8');
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IEND') break;
+    if (type !== 'tEXt' && type !== 'zTXt' && type !== 'iTXt') continue;
+
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd <= 0) continue;
+    const keyword = latin1.decode(data.subarray(0, keywordEnd));
+
+    if (type === 'tEXt') {
+      chunks[keyword] = latin1.decode(data.subarray(keywordEnd + 1));
+    } else if (type === 'zTXt') {
+      const text = await inflate(data.subarray(keywordEnd + 2));
+      if (text) chunks[keyword] = latin1.decode(text);
+    } else {
+      // iTXt: compression flag and method, then language tag and translated
+      // keyword (both null-terminated) before the UTF-8 text.
+      const compressed = data[keywordEnd + 1] === 1;
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd < 0) continue;
+      const raw = data.subarray(translatedEnd + 1);
+      const text = compressed ? await inflate(raw) : raw;
+      if (text) chunks[keyword] = utf8.decode(text);
+    }
+  }
+  return chunks;
+}
+
+function guessGenerator(modelName: string): Generator {
+  if (/flux/i.test(modelName)) return 'flux';
+  if (/xl|pony|illustrious/i.test(modelName)) return 'sdxl';
+  return 'stable_diffusion';
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function aspectRatioOf(width: unknown, height: unknown): string | undefined {
+  if (typeof width !== 'number' || typeof height !== 'number' || width <= 0 || height <= 0) return undefined;
+  const divisor = gcd(width, height);
+  return `${width / divisor}:${height / divisor}`;
+}
+
+// Seeds keep their digits as written; see parseSeed. Numbers only arrive
+// here within the safe range, as parseComfyPrompt quotes longer ones.
+function toSeed(value: unknown): string | undefined {
+  if (typeof value === 'number') return Number.isSafeInteger(value) && value >= 0 ? String(value) : undefined;
+  return typeof value === 'string' ? parseSeed(value.trim()) ?? undefined : undefined;
+}
+
+// Wraps integer literals too long for a JavaScript number in quotes, outside
+// of strings, so JSON.parse keeps their digits instead of rounding them.
+function quoteLongIntegers(json: string): string {
+  const longInteger = /\d{16,}(?![.eE\d])/y;
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') result += json[++i] ?? '';
+      else if (char === '"') inString = false;
+      continue;
+    }
+    longInteger.lastIndex = i;
+    const digits = /[\d.-]/.test(json[i - 1] ?? '') ? null : longInteger.exec(json);
+    if (digits) {
+      result += `"${digits[0]}"`;
+      i += digits[0].length - 1;
+      continue;
+    }
+    if (char === '"') inString = true;
+    result += char;
+  }
+  return result;
+}
+
+// Checkpoint file name without folders or extension.
+function modelLabel(fileName: string): string {
+  return fileName.split(/[\\/]/).pop()!.replace(/\.(safetensors|ckpt|pt|gguf)$/i, '');
+}
+
+// AUTOMATIC1111 layout: the prompt, an optional "Negative prompt: …"
+// section, then one line of comma-separated "Key: value" settings.
+export function parseA1111Parameters(text: string): EmbeddedPrompt {
+  const lines = text.trim().split('\n');
+  const settingsLine = /^Steps: /.test(lines[lines.length - 1]) ? lines.pop()! : '';
+  const body = lines.join('\n');
+  const negativeAt = body.indexOf('\nNegative prompt:');
+  const negativeStart = body.startsWith('Negative prompt:') ? 0 : negativeAt;
+
+  const result: EmbeddedPrompt = {};
+  const prompt = (negativeStart >= 0 ? body.slice(0, negativeStart) : body).trim();
+  if (prompt) result.prompt = prompt;
+  if (negativeStart >= 0) {
+    const negative = body.slice(negativeStart).replace(/^\n?Negative prompt:/, '').trim();
+    if (negative) result.negativePrompt = negative;
+  }
+
+  const settings = new Map<string, string>();
+  for (const match of Array.from(settingsLine.matchAll(/\s*([\w ]+):\s*("(?:\\.|[^"])*"|[^,]*)(?:,|$)/g))) {
+    settings.set(match[1].trim(), match[2].trim());
+  }
+  const seed = toSeed(settings.get('Seed'));
+  if (seed !== undefined) result.seed = seed;
+  const size = settings.get('Size')?.match(/^(\d+)x(\d+)$/);
+  if (size) result.aspectRatio = aspectRatioOf(Number(size[1]), Number(size[2]));
+  const model = settings.get('Model');
+  if (model) {
+    result.model = guessGenerator(model);
+    result.modelVersion = model.slice(0, 50);
+  }
+  return result;
+}
+
+type ComfyInput = string | number | boolean | [string, number] | null;
+
+interface ComfyNode {
+  class_type: string;
+  inputs: Record<string, ComfyInput>;
+}
+
+const SAMPLER_TYPES = ['KSampler', 'KSamplerAdvanced', 'SamplerCustom', 'SamplerCustomAdvanced'];
+
+// ComfyUI's API-format graph: nodes keyed by id, with links written as
+// [node id, output index]. Follows the first sampler's positive and
+// negative inputs back to their text encoders.
+export function parseComfyPrompt(json: string): EmbeddedPrompt {
+  let graph: Record<string, ComfyNode>;
+  try {
+    graph = JSON.parse(quoteLongIntegers(json));
+  } catch {
+    return {};
+  }
+  if (!graph || typeof graph !== 'object') return {};
+  const nodes = Object.values(graph).filter(node => node && typeof node.class_type === 'string' && node.inputs);
+
+  const textFrom = (input: ComfyInput | undefined, depth = 0): string | undefined => {
+    if (typeof input === 'string') return input;
+    if (!Array.isArray(input) || depth > 5) return undefined;
+    const node = graph[String(input[0])];
+    if (!node?.inputs) return undefined;
+    return textFrom(node.inputs.text ?? node.inputs.text_g ?? node.inputs.conditioning ?? node.inputs.positive, depth + 1);
+  };
+  const valueFrom = (input: ComfyInput | undefined): ComfyInput | undefined => {
+    if (!Array.isArray(input)) return input;
+    const node = graph[String(input[0])];
+    return node?.inputs ? node.inputs.value ?? node.inputs.seed ?? node.inputs.noise_seed : undefined;
+  };
+
+  const result: EmbeddedPrompt = {};
+  const sampler = nodes.find(node => SAMPLER_TYPES.includes(node.class_type));
+  if (sampler) {
+    const prompt = textFrom(sampler.inputs.positive)?.trim();
+    if (prompt) result.prompt = prompt;
+    const negative = textFrom(sampler.inputs.negative)?.trim();
+    if (negative) result.negativePrompt = negative;
+    const seed = toSeed(valueFrom(sampler.inputs.seed ?? sampler.inputs.noise_seed));
+    if (seed !== undefined) result.seed = seed;
+  }
+
+  const loader = nodes.find(node => typeof (node.inputs.ckpt_name ?? node.inputs.unet_name) === 'string');
+  if (loader) {
+    const model = modelLabel(String(loader.inputs.ckpt_name ?? loader.inputs.unet_name));
+    result.model = guessGenerator(model);
+    result.modelVersion = model.slice(0, 50);
+  }
+
+  const latent = nodes.find(node => node.class_type.startsWith('Empty') && node.class_type.includes('Latent'));
+  const aspectRatio = latent && aspectRatioOf(latent.inputs.width, latent.inputs.height);
+  if (aspectRatio) result.aspectRatio = aspectRatio;
+  return result;
+}
+
+export async function readEmbeddedPrompt(file: Blob): Promise<EmbeddedPrompt | null> {
+  const chunks = await readPngTextChunks(new Uint8Array(await file.arrayBuffer()));
+  const parsed = chunks.parameters
+    ? parseA1111Parameters(chunks.parameters)
+    : chunks.prompt
+      ? parseComfyPrompt(chunks.prompt)
+      : {};
+  return Object.keys(parsed).length > 0 ? parsed : null;
+}
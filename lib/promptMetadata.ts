@@ -0,0 +1,104 @@
+// Structured generation details of an entry, shared by the upload form,
+// /api/submissions and the gallery filters.
+
+export const GENERATORS = {
+  midjourney: 'Midjourney',
+  dalle: 'DALL·E',
+  sdxl: 'SDXL',
+  stable_diffusion: 'Stable Diffusion',
+  flux: 'Flux',
+  firefly: 'Adobe Firefly',
+  ideogram: 'Ideogram',
+  other: 'Other',
+} as const;
+
+export type Generator = keyof typeof GENERATORS;
+
+export interface PromptMetadata {
+  model: Generator | null;
+  modelVersion: string | null;
+  aspectRatio: string | null;
+  seed: string | null; // digits only, see parseSeed
+  negativePrompt: string | null;
+}
+
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+const ASPECT_RATIO_PATTERN = /^\d+(\.\d+)?:\d+(\.\d+)?$/;
+
+export function isGenerator(value: string): value is Generator {
+  return value in GENERATORS;
+}
+
+export function isAspectRatio(value: string): boolean {
+  return ASPECT_RATIO_PATTERN.test(value);
+}
+
+const MAX_SEED = BigInt('18446744073709551615'); // 2^64 - 1
+
+// Seeds are unsigned 64-bit integers, larger than a JavaScript number holds
+// exactly, so they stay digit strings throughout. Leading zeros are dropped.
+export function parseSeed(value: string): string | null {
+  if (!/^\d{1,20}$/.test(value)) return null;
+  const seed = BigInt(value);
+  return seed <= MAX_SEED ? seed.toString() : null;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Splits comma-separated (or #hashtag) input into unique normalized tags.
+export function parseTags(input: string): string[] {
+  const tags = input.split(/[,#\n]/).map(normalizeTag).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+// Reads Midjourney-style parameters (`--ar 16:9 --v 6 --seed 42 --no text`)
+// from the end of a prompt. Only the parameters found are returned; the
+// prompt itself is left as written.
+export function parseMidjourneyParams(prompt: string): Partial<PromptMetadata> {
+  const segments = prompt.split(/\s--(?=[a-z])/i).slice(1);
+  const metadata: Partial<PromptMetadata> = {};
+
+  for (const segment of segments) {
+    const [name, ...rest] = segment.trim().split(/\s+/);
+    const value = rest.join(' ');
+    switch (name.toLowerCase()) {
+      case 'ar':
+      case 'aspect':
+        if (isAspectRatio(value)) metadata.aspectRatio = value;
+        break;
+      case 'v':
+      case 'version':
+        if (value) {
+          metadata.model = 'midjourney';
+          metadata.modelVersion = value;
+        }
+        break;
+      case 'niji':
+        metadata.model = 'midjourney';
+        metadata.modelVersion = value ? `niji ${value}` : 'niji';
+        break;
+      case 'seed': {
+        const seed = parseSeed(value);
+        if (seed !== null) metadata.seed = seed;
+        break;
+      }
+      case 'no':
+        if (value) metadata.negativePrompt = value;
+        break;
+    }
+  }
+
+  // Any of these flags means the prompt was written for Midjourney.
+  if (Object.keys(metadata).length > 0) metadata.model = 'midjourney';
+  return metadata;
+}
@@ -0,0 +1,45 @@
+// In-memory fixed window limiter. State lives in the server process, which
+// is enough for our single instance deployment; it resets on restart.
+export interface RateLimiter {
+  // Seconds until `key` may act again, or 0 when it is under the limit.
+  retryAfter(key: string): number;
+  // Counts one attempt for `key` and returns the resulting retryAfter.
+  hit(key: string): number;
+  reset(key: string): void;
+}
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const current = (key: string, now: number) => {
+    const entry = windows.get(key);
+    if (entry && entry.resetAt <= now) {
+      windows.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const secondsLeft = (entry: { count: number; resetAt: number } | undefined, now: number) =>
+    entry && entry.count >= limit ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+
+  return {
+    retryAfter(key) {
+      const now = Date.now();
+      return secondsLeft(current(key, now), now);
+    },
+    hit(key) {
+      const now = Date.now();
+      windows.forEach((entry, k) => {
+        if (entry.resetAt <= now) windows.delete(k);
+      });
+      const entry = current(key, now) ?? { count: 0, resetAt: now + windowMs };
+      entry.count += 1;
+      windows.set(key, entry);
+      return secondsLeft(entry, now);
+    },
+    reset(key) {
+      windows.delete(key);
+    },
+  };
+}
@@ -0,0 +1,9 @@
+// images.stars is the sum of all 1-5 ratings and images.num_votes their
+// count.
+export function averageRating(stars: number, numVotes: number): number {
+  return numVotes > 0 ? stars / numVotes : 0;
+}
+
+export function formatAverage(stars: number, numVotes: number): string {
+  return numVotes > 0 ? averageRating(stars, numVotes).toFixed(1) : '–';
+}
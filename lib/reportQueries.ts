@@ -0,0 +1,19 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+// Closes the open reports on the given entries as reviewed by `username`
+// and returns how many were closed per entry. Once closed they no longer
+// count towards report_image's auto-hide threshold.
+export async function resolveOpenReports(imageIds: number[], username: string): Promise<Map<number, number>> {
+  const { data, error } = await supabaseAdmin
+    .from('reports')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: username })
+    .in('image_id', imageIds)
+    .is('resolved_at', null)
+    .select('image_id')
+    .returns<{ image_id: number }[]>();
+  if (error) throw error;
+
+  const counts = new Map<number, number>();
+  for (const { image_id: imageId } of data) counts.set(imageId, (counts.get(imageId) ?? 0) + 1);
+  return counts;
+}
@@ -0,0 +1,30 @@
+// Report reasons shown in the picker on each card, keyed by the values the
+// reports table accepts.
+export const REPORT_REASONS = {
+  spam: 'Spam',
+  nsfw: 'Sexual or graphic content',
+  offensive: 'Hateful or offensive',
+  copyright: 'Stolen or not their work',
+  other: 'Something else',
+} as const;
+
+export type ReportReason = keyof typeof REPORT_REASONS;
+
+export function isReportReason(value: unknown): value is ReportReason {
+  return typeof value === 'string' && value in REPORT_REASONS;
+}
+
+// Open reports per entry, as listed in the admin view.
+export interface ReportSummary {
+  image_id: number;
+  report_count: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  last_reported_at: string;
+}
+
+// Number of open reports from distinct client addresses that hides an
+// entry until an admin reviews it. REPORT_AUTO_HIDE_THRESHOLD=0 turns auto-hiding off.
+export function reportAutoHideThreshold(): number {
+  const value = Number(process.env.REPORT_AUTO_HIDE_THRESHOLD ?? 3);
+  return Number.isInteger(value) && value >= 0 ? value : 3;
+}
@@ -0,0 +1,32 @@
+import type { NextApiRequest } from 'next';
+
+// Number of reverse proxies in front of the app. Each one appends the
+// address it received the request from to X-Forwarded-For.
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// The address the request came from. Behind N trusted proxies that is the
+// Nth X-Forwarded-For entry from the right; entries left of it were sent by
+// the client and are ignored, as is the whole header without trusted
+// proxies.
+export function getClientIp(req: NextApiRequest): string {
+  const hops = trustedProxyHops();
+  let address = req.socket.remoteAddress;
+  if (hops > 0) {
+    const header = req.headers['x-forwarded-for'];
+    const forwarded = (Array.isArray(header) ? header.join(',') : header ?? '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    address = forwarded[Math.max(0, forwarded.length - hops)] ?? address;
+  }
+  return address?.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '') || 'unknown';
+}
+
+// Parses a positive integer id from a query parameter or body field.
+export function parseId(value: unknown): number | null {
+  const id = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
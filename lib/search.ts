@@ -0,0 +1,33 @@
+// Markers ts_headline puts around matches (see the search_images SQL
+// function). They are split out here instead of letting the database emit
+// HTML, so user text is never rendered as markup.
+const HIGHLIGHT_START = '[[[';
+const HIGHLIGHT_END = ']]]';
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let rest = text;
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start);
+    if (start === -1 || end === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), match: false });
+    parts.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), match: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+  return parts;
+}
+
+export interface SearchHighlights {
+  title: string;
+  description: string;
+  artist_name: string;
+}
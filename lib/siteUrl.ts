@@ -0,0 +1,12 @@
+import type { IncomingMessage } from 'http';
+
+// Absolute URL for `path`, needed for Open Graph tags. Uses
+// NEXT_PUBLIC_SITE_URL when set, otherwise the host the request came in on.
+export function absoluteUrl(req: IncomingMessage, path: string): string {
+  const configured = process.env.NEXT_PUBLIC_SITE_URL;
+  if (configured) return new URL(path, configured).toString();
+
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0] || 'http';
+  return new URL(path, `${proto}://${req.headers.host}`).toString();
+}
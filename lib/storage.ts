@@ -0,0 +1,49 @@
+// A resized copy of an uploaded image, as stored in images.variants.
+export interface ImageVariant {
+  width: number;
+  format: 'avif' | 'webp';
+  path: string;
+}
+
+// Public URL of an object in the `images` storage bucket.
+export function publicFileUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/images/${path}`;
+}
+
+// srcset value listing the variants of one format, or undefined if there
+// are none.
+export function variantSrcSet(variants: ImageVariant[] | null | undefined, format: ImageVariant['format']): string | undefined {
+  const matching = (variants ?? []).filter(variant => variant.format === format);
+  if (matching.length === 0) return undefined;
+  return matching.map(variant => `${publicFileUrl(variant.path)} ${variant.width}w`).join(', ');
+}
+
+// The best still to use for link previews: the largest WebP variant up to
+// 1280px, a video's poster, or the original upload.
+export function previewImagePath(record: { file_path: string | null; poster_path: string | null; variants: ImageVariant[] | null }): string | null {
+  const webp = (record.variants ?? [])
+    .filter(variant => variant.format === 'webp' && variant.width <= 1280)
+    .sort((a, b) => b.width - a.width);
+  if (webp.length > 0) return webp[0].path;
+  return record.poster_path || record.file_path || null;
+}
+
+// The smallest still of an entry, for thumbnails in lists: the narrowest
+// WebP variant, a video's poster, or the original image.
+export function thumbnailPath(record: { media_type: string; file_path: string | null; poster_path: string | null; variants: ImageVariant[] | null }): string | null {
+  const webp = (record.variants ?? [])
+    .filter(variant => variant.format === 'webp')
+    .sort((a, b) => a.width - b.width);
+  if (webp.length > 0) return webp[0].path;
+  if (record.poster_path) return record.poster_path;
+  return record.media_type === 'image' ? record.file_path || null : null;
+}
+
+// Every object stored for an entry: the upload, its variants and poster.
+export function storedFilePaths(record: { file_path: string | null; poster_path: string | null; variants: ImageVariant[] | null }): string[] {
+  return [
+    ...(record.file_path ? [record.file_path] : []),
+    ...(record.poster_path ? [record.poster_path] : []),
+    ...(record.variants ?? []).map(variant => variant.path),
+  ];
+}
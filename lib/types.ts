@@ -0,0 +1,69 @@
+import type { EmbedProvider } from './embeds';
+import type { Generator } from './promptMetadata';
+import type { ImageVariant } from './storage';
+
+// A gallery entry as visitors see it, read from the image_feed view. Never
+// add the submitter's email or moderation details here.
+export interface PublicImage {
+  id: number;
+  title: string;
+  description: string;
+  artist_name: string;
+  artist_slug: string;
+  media_type: 'image' | 'video' | 'embed';
+  file_path: string | null;
+  youtube_link: string | null;
+  embed_provider: EmbedProvider | null;
+  embed_id: string | null;
+  embed_start_seconds: number | null;
+  embed_thumbnail_url: string | null;
+  poster_path: string | null;
+  duration_seconds: number | null;
+  width: number | null;
+  height: number | null;
+  variants: ImageVariant[];
+  blur_data_url: string | null;
+  stars: number; // sum of all ratings
+  num_votes: number;
+  created_at: string;
+  challenge_id: number | null;
+  challenge_rank: number | null; // 1-3 once a challenge's winners are announced
+  model: Generator | null;
+  model_version: string | null;
+  aspect_ratio: string | null; // e.g. "16:9"
+  seed: string | null; // up to 2^64 - 1, so kept as digits
+  negative_prompt: string | null;
+  tags: string[];
+}
+
+// The full images row, only ever served through the admin API routes.
+export interface AdminImage extends PublicImage {
+  artist: string; // submitter's email
+  hidden: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  rejection_reason: string | null;
+  moderated_at: string | null;
+  moderated_by: string | null;
+  auto_hidden_at: string | null; // set while reports keep the entry hidden
+  email_verified_at: string | null; // unpublished until the submitter confirms their email
+}
+
+// An entry as its submitter sees it on the "my submissions" page.
+export interface CreatorImage extends PublicImage {
+  hidden: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  rejection_reason: string | null;
+}
+
+const PUBLIC_IMAGE_FIELDS: (keyof PublicImage)[] = [
+  'id', 'title', 'description', 'artist_name', 'artist_slug', 'media_type', 'file_path', 'youtube_link',
+  'embed_provider', 'embed_id', 'embed_start_seconds', 'embed_thumbnail_url', 'poster_path', 'duration_seconds',
+  'width', 'height', 'variants', 'blur_data_url', 'stars', 'num_votes', 'created_at',
+  'challenge_id', 'challenge_rank', 'model', 'model_version', 'aspect_ratio', 'seed', 'negative_prompt', 'tags',
+];
+
+// Column list for public queries. Selecting explicitly, rather than `*`,
+// keeps new columns private until they are added to PublicImage.
+export const PUBLIC_IMAGE_COLUMNS = PUBLIC_IMAGE_FIELDS.join(', ');
+
+export const CREATOR_IMAGE_COLUMNS = `${PUBLIC_IMAGE_COLUMNS}, hidden, status, rejection_reason`;
@@ -0,0 +1,259 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { differenceHash } from './perceptualHash';
+import { ImageVariant, storedFilePaths } from './storage';
+import { supabaseAdmin } from './supabaseAdmin';
+import { extractFrame, probeVideo, stripVideoMetadata, withTempFile } from './video';
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+export type MediaKind = 'image' | 'video';
+
+export interface DetectedMedia {
+  kind: MediaKind;
+  mimeType: string;
+  extension: string;
+}
+
+export interface PreparedFile {
+  buffer: Buffer;
+  contentType: string;
+  path: string;
+}
+
+export interface PreparedUpload extends PreparedFile {
+  // path is the content-hash file name inside the images bucket
+  kind: MediaKind;
+  width: number | null;
+  height: number | null;
+  variants: (ImageVariant & PreparedFile)[];
+  blurDataUrl: string | null;
+  // Videos only: a still frame shown before playback, and the length.
+  poster: PreparedFile | null;
+  durationSeconds: number | null;
+  // Of the image, or of a video's poster frame; see differenceHash.
+  perceptualHash: string;
+}
+
+// Widths of the resized copies served through srcset. Widths larger than
+// the original are skipped.
+const VARIANT_WIDTHS = [320, 640, 1280];
+const VARIANT_FORMATS = ['avif', 'webp'] as const;
+
+// Thrown for problems with the uploaded file itself; the message is shown
+// to the submitter.
+export class UploadValidationError extends Error {}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString('latin1');
+}
+
+// Major brands of ISO base media files that hold video. The same container
+// also carries HEIF photos: AVIF, which sharp reads, and HEIC, which it
+// doesn't.
+const VIDEO_BRANDS = ['isom', 'mp41', 'mp42', 'avc1', 'M4V '];
+const HEIF_BRANDS = ['mif1', 'msf1'];
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', ...HEIF_BRANDS];
+
+// The major brand followed by the compatible brands of the file's `ftyp`
+// box, or nothing for other files.
+function ftypBrands(buffer: Buffer): string[] {
+  if (ascii(buffer, 4, 8) !== 'ftyp') return [];
+  const end = Math.min(buffer.length, buffer.readUInt32BE(0));
+  const brands = [ascii(buffer, 8, 12)];
+  for (let offset = 16; offset + 4 <= end; offset += 4) brands.push(ascii(buffer, offset, offset + 4));
+  return brands;
+}
+
+// Identifies the file by its leading bytes rather than by the name or the
+// MIME type the browser sent.
+export function detectMediaType(buffer: Buffer): DetectedMedia | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return { kind: 'image', mimeType: 'image/jpeg', extension: 'jpg' };
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return { kind: 'image', mimeType: 'image/png', extension: 'png' };
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return { kind: 'image', mimeType: 'image/gif', extension: 'gif' };
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return { kind: 'image', mimeType: 'image/webp', extension: 'webp' };
+  const [brand, ...compatible] = ftypBrands(buffer);
+  if (brand === 'qt  ') return { kind: 'video', mimeType: 'video/quicktime', extension: 'mov' };
+  if (brand && VIDEO_BRANDS.includes(brand)) return { kind: 'video', mimeType: 'video/mp4', extension: 'mp4' };
+  if (brand === 'avif' || (HEIF_BRANDS.includes(brand) && compatible.includes('avif'))) {
+    return { kind: 'image', mimeType: 'image/avif', extension: 'avif' };
+  }
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) return { kind: 'video', mimeType: 'video/webm', extension: 'webm' };
+  return null;
+}
+
+// Re-encodes the image, which applies the EXIF orientation and drops all
+// metadata (EXIF, GPS, XMP) since sharp only keeps it when asked to.
+async function stripImageMetadata(buffer: Buffer, mimeType: string): Promise<Buffer> {
+  const animated = mimeType === 'image/gif' || mimeType === 'image/webp';
+  const image = sharp(buffer, { animated }).rotate();
+  switch (mimeType) {
+    case 'image/jpeg':
+      return image.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+    case 'image/png':
+      return image.png().toBuffer();
+    case 'image/gif':
+      return image.gif().toBuffer();
+    case 'image/avif':
+      return image.avif({ quality: 60 }).toBuffer();
+    default:
+      return image.webp({ quality: 90 }).toBuffer();
+  }
+}
+
+// Resized AVIF/WebP copies plus a tiny blurred WebP, inlined as a data URL,
+// to show while the real image loads. Animated images keep only the
+// original so they stay animated.
+async function generateVariants(buffer: Buffer, hash: string) {
+  const metadata = await sharp(buffer).metadata();
+  const width = metadata.width ?? null;
+  const height = metadata.height ?? null;
+  const animated = (metadata.pages ?? 1) > 1;
+
+  const variants: (ImageVariant & PreparedFile)[] = [];
+  if (!animated && width) {
+    const widths = VARIANT_WIDTHS.filter(w => w < width);
+    for (const variantWidth of widths.length > 0 ? widths : [width]) {
+      for (const format of VARIANT_FORMATS) {
+        const resized = sharp(buffer).resize({ width: variantWidth, withoutEnlargement: true });
+        variants.push({
+          width: variantWidth,
+          format,
+          path: `variants/${hash}-${variantWidth}.${format}`,
+          contentType: `image/${format}`,
+          buffer: await (format === 'avif' ? resized.avif({ quality: 50 }) : resized.webp({ quality: 75 })).toBuffer(),
+        });
+      }
+    }
+  }
+
+  const placeholder = await sharp(buffer).resize({ width: 16 }).blur().webp({ quality: 40 }).toBuffer();
+  return { width, height, variants, blurDataUrl: `data:image/webp;base64,${placeholder.toString('base64')}` };
+}
+
+// Strips container metadata and grabs a poster frame one second in (or
+// from the start of very short clips).
+async function prepareVideo(original: Buffer, media: DetectedMedia): Promise<PreparedUpload> {
+  return withTempFile(original, media.extension, async file => {
+    const info = await probeVideo(file);
+    if (!info) {
+      throw new UploadValidationError('The video could not be read. It may be corrupted or use an unsupported codec.');
+    }
+
+    let buffer: Buffer;
+    let frame: Buffer;
+    try {
+      buffer = await stripVideoMetadata(file, media.extension);
+      frame = await extractFrame(file, info.durationSeconds > 2 ? 1 : 0);
+    } catch (error) {
+      console.error('Error processing video:', error);
+      throw new UploadValidationError('The video could not be processed. It may be corrupted.');
+    }
+
+    const hash = createHash('sha256').update(buffer).digest('hex');
+    const poster = await sharp(frame).resize({ width: 1280, withoutEnlargement: true }).webp({ quality: 75 }).toBuffer();
+    const placeholder = await sharp(frame).resize({ width: 16 }).blur().webp({ quality: 40 }).toBuffer();
+    return {
+      buffer,
+      contentType: media.mimeType,
+      path: `${hash}.${media.extension}`,
+      kind: media.kind,
+      width: info.width,
+      height: info.height,
+      variants: [],
+      blurDataUrl: `data:image/webp;base64,${placeholder.toString('base64')}`,
+      poster: { buffer: poster, contentType: 'image/webp', path: `posters/${hash}.webp` },
+      durationSeconds: Math.round(info.durationSeconds * 10) / 10,
+      perceptualHash: await differenceHash(frame),
+    };
+  });
+}
+
+export async function prepareUpload(file: { buffer: Buffer; truncated: boolean }): Promise<PreparedUpload> {
+  const media = detectMediaType(file.buffer);
+  if (!media && HEIC_BRANDS.includes(ftypBrands(file.buffer)[0])) {
+    throw new UploadValidationError('HEIC photos are not supported. Export the photo as JPEG and upload it again.');
+  }
+  if (!media) {
+    throw new UploadValidationError('Unsupported file type. Upload a JPEG, PNG, GIF, WebP or AVIF image, or an MP4, MOV or WebM video.');
+  }
+
+  const maxBytes = media.kind === 'image' ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+  if (file.truncated || file.buffer.length > maxBytes) {
+    throw new UploadValidationError(`File is too large. The limit is ${maxBytes / 1024 / 1024} MB for ${media.kind}s.`);
+  }
+
+  if (media.kind === 'video') {
+    return prepareVideo(file.buffer, media);
+  }
+
+  try {
+    const buffer = await stripImageMetadata(file.buffer, media.mimeType);
+    const hash = createHash('sha256').update(buffer).digest('hex');
+    return {
+      buffer,
+      contentType: media.mimeType,
+      path: `${hash}.${media.extension}`,
+      kind: media.kind,
+      ...await generateVariants(buffer, hash),
+      poster: null,
+      durationSeconds: null,
+      perceptualHash: await differenceHash(buffer),
+    };
+  } catch (error) {
+    console.error('Error processing image:', error);
+    throw new UploadValidationError('The image could not be read. It may be corrupted.');
+  }
+}
+
+// Uploads the file, its variants and poster to the images bucket. Names are
+// content hashes, so re-uploading the same bytes is harmless.
+export async function storePreparedUpload(upload: PreparedUpload): Promise<void> {
+  const files = [upload, ...upload.variants, ...(upload.poster ? [upload.poster] : [])];
+  for (const stored of files) {
+    const { error } = await supabaseAdmin.storage
+      .from('images')
+      .upload(stored.path, stored.buffer, { contentType: stored.contentType, upsert: true });
+    if (error) throw error;
+  }
+}
+
+// The images columns describing a stored upload.
+export function uploadColumns(upload: PreparedUpload) {
+  return {
+    media_type: upload.kind,
+    file_path: upload.path,
+    poster_path: upload.poster?.path ?? null,
+    duration_seconds: upload.durationSeconds,
+    width: upload.width,
+    height: upload.height,
+    variants: upload.variants.map(({ width, format, path }) => ({ width, format, path })),
+    blur_data_url: upload.blurDataUrl,
+    perceptual_hash: upload.perceptualHash,
+  };
+}
+
+// Deletes an entry's stored files, unless another entry (such as a rejected
+// earlier submission of the same bytes) still points at them.
+export async function removeStoredFiles(
+  record: { id: number; file_path: string | null; poster_path: string | null; variants: ImageVariant[] | null },
+): Promise<void> {
+  const paths = storedFilePaths(record);
+  if (paths.length === 0) return;
+
+  const { count, error: lookupError } = await supabaseAdmin
+    .from('images')
+    .select('id', { count: 'exact', head: true })
+    .eq('file_path', record.file_path)
+    .neq('id', record.id);
+  if (lookupError) throw lookupError;
+  if (count) return;
+
+  const { error } = await supabaseAdmin.storage.from('images').remove(paths);
+  if (error) throw error;
+}
@@ -0,0 +1,83 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { path as ffmpegPath } from '@ffmpeg-installer/ffmpeg';
+import { path as ffprobePath } from '@ffprobe-installer/ffprobe';
+
+export interface VideoInfo {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+function run(binary: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024, timeout: 60_000 }, (error, stdout, stderr) => {
+      if (error) reject(new Error(`${path.basename(binary)} failed: ${stderr.toString('utf8').trim() || error.message}`));
+      else resolve(stdout);
+    });
+  });
+}
+
+// ffmpeg needs seekable input for MP4/MOV, so the upload is written to a
+// temporary file for the duration of `work`.
+export async function withTempFile<T>(buffer: Buffer, extension: string, work: (file: string) => Promise<T>): Promise<T> {
+  const file = path.join(os.tmpdir(), `upload-${randomUUID()}.${extension}`);
+  await fs.writeFile(file, buffer);
+  try {
+    return await work(file);
+  } finally {
+    await fs.rm(file, { force: true });
+  }
+}
+
+// Returns null when the file has no video stream ffprobe can read.
+export async function probeVideo(file: string): Promise<VideoInfo | null> {
+  try {
+    const output = await run(ffprobePath, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height:format=duration',
+      '-of', 'json',
+      file,
+    ]);
+    const info = JSON.parse(output.toString('utf8'));
+    const stream = info.streams?.[0];
+    const durationSeconds = Number(info.format?.duration);
+    if (!stream?.width || !stream?.height || !Number.isFinite(durationSeconds)) return null;
+    return { durationSeconds, width: stream.width, height: stream.height };
+  } catch (error) {
+    console.error('Error probing video:', error);
+    return null;
+  }
+}
+
+// Copies the streams into a new container without the global metadata
+// (location, device, creation time). Nothing is re-encoded; MP4/MOV get the
+// index moved to the front so playback can start before the download ends.
+export async function stripVideoMetadata(file: string, extension: string): Promise<Buffer> {
+  const output = path.join(os.tmpdir(), `clean-${randomUUID()}.${extension}`);
+  const args = ['-v', 'error', '-i', file, '-map', '0', '-map_metadata', '-1', '-c', 'copy'];
+  if (extension !== 'webm') args.push('-movflags', '+faststart');
+  try {
+    await run(ffmpegPath, [...args, output]);
+    return await fs.readFile(output);
+  } finally {
+    await fs.rm(output, { force: true });
+  }
+}
+
+// A single PNG frame taken `atSeconds` into the video.
+export function extractFrame(file: string, atSeconds: number): Promise<Buffer> {
+  return run(ffmpegPath, [
+    '-v', 'error',
+    '-ss', atSeconds.toFixed(2),
+    '-i', file,
+    '-frames:v', '1',
+    '-f', 'image2pipe',
+    '-vcodec', 'png',
+    'pipe:1',
+  ]);
+}
@@ -0,0 +1,36 @@
+import { createHash, randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { serialize } from 'cookie';
+import { getClientIp } from './request';
+
+const VOTER_COOKIE = 'voter_id';
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+// Returns the voter session id from the cookie, issuing a new one when the
+// request doesn't carry it yet.
+export function getOrCreateVoterId(req: NextApiRequest, res: NextApiResponse): string {
+  const existing = req.cookies[VOTER_COOKIE];
+  if (existing && /^[0-9a-f-]{36}$/.test(existing)) return existing;
+
+  const voterId = randomUUID();
+  res.setHeader('Set-Cookie', serialize(VOTER_COOKIE, voterId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV !== 'development',
+    sameSite: 'lax',
+    maxAge: ONE_YEAR,
+    path: '/',
+  }));
+  return voterId;
+}
+
+// A salted hash of the client's address (see getClientIp). Clearing cookies
+// or local storage does not change it, so reports are deduplicated and
+// counted by it. Nothing client-supplied, such as the user agent, goes in,
+// since a client could vary it at will. Votes only record it: visitors
+// sharing one address each keep their own rating.
+export function getVoterFingerprint(req: NextApiRequest): string {
+  return createHash('sha256')
+    .update(process.env.VOTER_FINGERPRINT_SALT || '')
+    .update(getClientIp(req))
+    .digest('hex');
+}
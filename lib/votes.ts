@@ -0,0 +1,28 @@
+// Browser helpers for /api/vote.
+
+export interface RatingResult {
+  stars: number;
+  num_votes: number;
+  rating: number;
+}
+
+// The current visitor's own ratings, keyed by image id.
+export async function fetchUserRatings(): Promise<{ [key: number]: number }> {
+  const response = await fetch('/api/vote');
+  if (!response.ok) throw new Error(`Rating lookup failed with status ${response.status}`);
+  const { ratings } = await response.json();
+  return ratings;
+}
+
+export async function submitRating(imageId: number, rating: number): Promise<RatingResult> {
+  const response = await fetch('/api/vote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ imageId, rating }),
+  });
+  if (!response.ok) {
+    const { message } = await response.json().catch(() => ({ message: null }));
+    throw new Error(message || `Rating failed with status ${response.status}`);
+  }
+  return response.json();
+}
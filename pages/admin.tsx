@@ -1,29 +1,92 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabaseClient';
 import { useRouter } from 'next/router';
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Input } from "../components/ui/input";
 import { Button } from "../components/ui/button";
 import { Switch } from "../components/ui/switch";
+import { Textarea } from "../components/ui/textarea";
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from 'lucide-react';
+import { formatAverage } from '../lib/ratings';
+import { publicFileUrl, thumbnailPath } from '../lib/storage';
+import { AdminImage } from '../lib/types';
+import {
+  ADMIN_PAGE_SIZES, AdminImageQuery, AdminSortColumn, DEFAULT_ADMIN_IMAGE_QUERY, MAX_ADMIN_PAGE_SIZE, adminImageQueryToParams,
+} from '../lib/adminImageQuery';
+import type { RatingDistribution } from '../lib/adminImages';
+import { MEDIA_TYPE_LABELS } from '../lib/feedQuery';
+import type { MediaTypeFilter } from '../lib/feedQuery';
+import { Challenge, challengePhase } from '../lib/challenges';
+import { AdminComment } from '../lib/comments';
+import { REPORT_REASONS, ReportReason, ReportSummary } from '../lib/reports';
+import { ADMIN_ROLES, AdminAccount, AdminRole, hasRole } from '../lib/adminRoles';
+import { AUDIT_ACTIONS, AUDIT_PAGE_SIZE, AUDIT_TARGET_TYPES, AuditAction, AuditEntry, AuditQuery, AuditTargetType, DEFAULT_AUDIT_QUERY, auditQueryToParams } from '../lib/audit';
 
-interface Image {
+interface ImageEdit {
   id: number;
   title: string;
   description: string;
-  artist: string;
-  file_path: string;
-  stars: number;
-  num_votes: number;
+  artist_name: string;
+}
+
+const EMPTY_CHALLENGE = { title: '', description: '', startsAt: '', endsAt: '' };
+const EMPTY_ACCOUNT: { username: string; email: string; role: AdminRole } = { username: '', email: '', role: 'moderator' };
+
+interface OpenReport {
+  id: number;
+  image_id: number;
+  reason: ReportReason;
+  details: string | null;
   created_at: string;
-  hidden: boolean;
 }
 
+type AdminChallenge = Challenge & { entry_count: number };
+
+// "field: before → after" for each value an audited action changed.
+function describeChanges(entry: AuditEntry): string[] {
+  const fields = Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+  const show = (value: unknown) => value === undefined ? '–' : JSON.stringify(value).slice(0, 120);
+  return fields
+    .filter(field => JSON.stringify(entry.before?.[field]) !== JSON.stringify(entry.after?.[field]))
+    .map(field => entry.before && entry.after
+      ? `${field}: ${show(entry.before[field])} → ${show(entry.after[field])}`
+      : `${field}: ${show((entry.after ?? entry.before)?.[field])}`);
+}
+
+const SELECT_CLASS_NAME = 'mt-1 block h-10 rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground';
+
 const AdminView: React.FC = () => {
-  const [images, setImages] = useState<Image[]>([]);
+  // Every entry loaded so far by any tab, so an edit in one shows in all.
+  const [imagesById, setImagesById] = useState<{ [key: number]: AdminImage }>({});
+  const [tableQuery, setTableQuery] = useState<AdminImageQuery>(DEFAULT_ADMIN_IMAGE_QUERY);
+  const [searchInput, setSearchInput] = useState('');
+  const [tableIds, setTableIds] = useState<number[]>([]);
+  const [tableTotal, setTableTotal] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [pendingIds, setPendingIds] = useState<number[]>([]);
+  const [pendingTotal, setPendingTotal] = useState(0);
+  const [distributions, setDistributions] = useState<{ [key: number]: RatingDistribution }>({});
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [session, setSession] = useState<{ username: string; role: AdminRole } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ImageEdit | null>(null);
+  const [tab, setTab] = useState<'queue' | 'all' | 'reports' | 'comments' | 'duplicates' | 'challenges' | 'audit' | 'accounts'>('queue');
+  const [reportSummaries, setReportSummaries] = useState<ReportSummary[]>([]);
+  const [openReports, setOpenReports] = useState<OpenReport[]>([]);
+  const [comments, setComments] = useState<AdminComment[]>([]);
+  const [duplicateClusters, setDuplicateClusters] = useState<number[][]>([]);
+  const [challenges, setChallenges] = useState<AdminChallenge[]>([]);
+  const [newChallenge, setNewChallenge] = useState(EMPTY_CHALLENGE);
+  const [rejectReasons, setRejectReasons] = useState<{ [key: number]: string }>({});
+  const [auditQuery, setAuditQuery] = useState<AuditQuery>(DEFAULT_AUDIT_QUERY);
+  const [auditFilters, setAuditFilters] = useState({ admin: '', targetId: '' });
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditTotal, setAuditTotal] = useState(0);
+  const [accounts, setAccounts] = useState<AdminAccount[]>([]);
+  const [newAccount, setNewAccount] = useState(EMPTY_ACCOUNT);
+  // The last invitation or reset link, shown so it can be passed on by hand.
+  const [setupLink, setSetupLink] = useState<{ username: string; url: string; emailSent: boolean } | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -32,29 +95,220 @@ const AdminView: React.FC = () => {
 
   useEffect(() => {
     if (isAuthenticated) {
-      fetchImages();
+      fetchQueue();
+      fetchChallenges();
+      fetchDuplicates();
+      fetchComments();
+      fetchReports();
     }
+    // Load once per login, not on every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAuthenticated]);
 
+  useEffect(() => {
+    if (isAuthenticated) fetchTable(tableQuery);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, tableQuery]);
+
+  useEffect(() => {
+    if (isAuthenticated && tab === 'audit') fetchAuditLog(auditQuery);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, tab, auditQuery]);
+
+  useEffect(() => {
+    if (isAuthenticated && tab === 'accounts') fetchAccounts();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, tab]);
+
   const checkAuth = async () => {
     const response = await fetch('/api/check-auth');
     if (response.ok) {
+      const { username, role }: { username: string; role: AdminRole } = await response.json();
+      setSession({ username, role });
       setIsAuthenticated(true);
     }
   };
 
-  const fetchImages = async () => {
-    const { data, error } = await supabase
-      .from('images')
-      .select('*')
-      .order('created_at', { ascending: false });
+  const cacheImages = (images: AdminImage[]) => {
+    setImagesById(prev => ({ ...prev, ...Object.fromEntries(images.map(image => [image.id, image])) }));
+  };
+
+  const mergeImage = (id: number, updates: Partial<AdminImage>) => {
+    setImagesById(prev => prev[id] ? { ...prev, [id]: { ...prev[id], ...updates } } : prev);
+  };
+
+  // Loads one page of entries into imagesById and returns its ids and the
+  // total number of matches.
+  const loadImages = async (query: Partial<AdminImageQuery>) => {
+    const params = new URLSearchParams(adminImageQueryToParams({ ...DEFAULT_ADMIN_IMAGE_QUERY, ...query }));
+    const response = await adminRequest(`/api/admin/images?${params}`, {});
 
-    if (error) {
-      console.error('Error fetching images:', error);
+    if (!response.ok) {
+      console.error('Error fetching images:', response.status);
       setError('Failed to fetch images');
-    } else {
-      setImages(data || []);
+      return null;
+    }
+    const { images, total, distributions }: { images: AdminImage[]; total: number; distributions: RatingDistribution[] } = await response.json();
+    cacheImages(images);
+    setDistributions(prev => ({ ...prev, ...Object.fromEntries(distributions.map(d => [d.image_id, d])) }));
+    return { ids: images.map(image => image.id), total };
+  };
+
+  // Loads the given entries into imagesById, one page-sized batch at a time
+  // since a request takes at most MAX_ADMIN_PAGE_SIZE ids.
+  const loadImagesByIds = async (ids: number[]) => {
+    for (let start = 0; start < ids.length; start += MAX_ADMIN_PAGE_SIZE) {
+      const batch = ids.slice(start, start + MAX_ADMIN_PAGE_SIZE);
+      if (!await loadImages({ ids: batch, pageSize: MAX_ADMIN_PAGE_SIZE })) return;
+    }
+  };
+
+  const fetchTable = async (query: AdminImageQuery) => {
+    const page = await loadImages(query);
+    if (!page) return;
+    setTableIds(page.ids);
+    setTableTotal(page.total);
+    setSelectedIds([]);
+  };
+
+  const fetchQueue = async () => {
+    const page = await loadImages({ status: 'pending', ascending: true, pageSize: MAX_ADMIN_PAGE_SIZE });
+    if (!page) return;
+    setPendingIds(page.ids);
+    setPendingTotal(page.total);
+  };
+
+  const fetchChallenges = async () => {
+    const response = await adminRequest('/api/admin/challenges', {});
+
+    if (!response.ok) {
+      console.error('Error fetching challenges:', response.status);
+      setError('Failed to fetch challenges');
+      return;
+    }
+    const { challenges }: { challenges: AdminChallenge[] } = await response.json();
+    setChallenges(challenges);
+  };
+
+  const fetchReports = async () => {
+    const response = await adminRequest('/api/admin/reports', {});
+
+    if (!response.ok) {
+      console.error('Error fetching reports:', response.status);
+      setError('Failed to fetch reports');
+      return;
+    }
+    const { summaries, reports }: { summaries: ReportSummary[]; reports: OpenReport[] } = await response.json();
+    setReportSummaries(summaries);
+    setOpenReports(reports);
+    await loadImagesByIds(summaries.map(summary => summary.image_id));
+  };
+
+  const fetchComments = async () => {
+    const response = await adminRequest('/api/admin/comments', {});
+
+    if (!response.ok) {
+      console.error('Error fetching comments:', response.status);
+      setError('Failed to fetch comments');
+      return;
+    }
+    const { comments }: { comments: AdminComment[] } = await response.json();
+    setComments(comments);
+  };
+
+  const fetchDuplicates = async () => {
+    const response = await adminRequest('/api/admin/duplicates', {});
+
+    if (!response.ok) {
+      console.error('Error fetching duplicates:', response.status);
+      setError('Failed to fetch duplicates');
+      return;
+    }
+    const { clusters }: { clusters: number[][] } = await response.json();
+    setDuplicateClusters(clusters);
+    await loadImagesByIds(clusters.flat());
+  };
+
+  const fetchAuditLog = async (query: AuditQuery) => {
+    const response = await adminRequest(`/api/admin/audit?${new URLSearchParams(auditQueryToParams(query))}`, {});
+
+    if (!response.ok) {
+      console.error('Error fetching audit log:', response.status);
+      setError('Failed to fetch audit log');
+      return;
+    }
+    const { entries, total }: { entries: AuditEntry[]; total: number } = await response.json();
+    setAuditEntries(entries);
+    setAuditTotal(total);
+  };
+
+  // Filter changes start again from the first page.
+  const updateAuditQuery = (changes: Partial<AuditQuery>) => {
+    setAuditQuery(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const fetchAccounts = async () => {
+    const response = await adminRequest('/api/admin/accounts', {});
+
+    if (!response.ok) {
+      console.error('Error fetching accounts:', response.status);
+      setError('Failed to fetch accounts');
+      return;
     }
+    const { accounts }: { accounts: AdminAccount[] } = await response.json();
+    setAccounts(accounts);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const response = await adminRequest('/api/admin/accounts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(newAccount),
+    });
+
+    const result = await response.json().catch(() => ({ message: null }));
+    if (!response.ok) {
+      console.error('Error inviting admin:', response.status);
+      setError(result.message || 'Failed to invite admin');
+      return;
+    }
+    setAccounts(prev => [...prev, result.account]);
+    setSetupLink({ username: result.account.username, url: result.setupUrl, emailSent: result.emailSent });
+    setNewAccount(EMPTY_ACCOUNT);
+    setError(null);
+  };
+
+  const updateAccount = async (account: AdminAccount, updates: { role?: AdminRole; disabled?: boolean }) => {
+    const response = await adminRequest(`/api/admin/accounts/${account.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+
+    const result = await response.json().catch(() => ({ message: null }));
+    if (!response.ok) {
+      console.error('Error updating account:', response.status);
+      setError(result.message || 'Failed to update account');
+      return;
+    }
+    setAccounts(prev => prev.map(a => a.id === account.id ? result : a));
+    setError(null);
+  };
+
+  const handleResetPassword = async (account: AdminAccount) => {
+    if (!window.confirm(`Reset the password of ${account.username}? They are logged out until they set a new one.`)) return;
+    const response = await adminRequest(`/api/admin/accounts/${account.id}/reset-password`, { method: 'POST' });
+
+    const result = await response.json().catch(() => ({ message: null }));
+    if (!response.ok) {
+      console.error('Error resetting password:', response.status);
+      setError(result.message || 'Failed to reset password');
+      return;
+    }
+    setAccounts(prev => prev.map(a => a.id === account.id ? result.account : a));
+    setSetupLink({ username: account.username, url: result.setupUrl, emailSent: result.emailSent });
+    setError(null);
   };
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -66,28 +320,283 @@ const AdminView: React.FC = () => {
     });
 
     if (response.ok) {
-      setIsAuthenticated(true);
+      await checkAuth();
+      setError(null);
     } else {
-      setError('Invalid credentials');
+      const { message } = await response.json().catch(() => ({ message: null }));
+      setError(message || 'Invalid credentials');
     }
   };
 
-  const handleToggleHidden = async (id: number, currentHiddenState: boolean) => {
-    const { error } = await supabase
-      .from('images')
-      .update({ hidden: !currentHiddenState })
-      .eq('id', id);
+  const handleLogout = async () => {
+    await fetch('/api/admin-logout', { method: 'POST' });
+    setIsAuthenticated(false);
+    setSession(null);
+    setAccounts([]);
+    setSetupLink(null);
+    setImagesById({});
+    setTableIds([]);
+    setPendingIds([]);
+    setPassword('');
+  };
 
-    if (error) {
-      console.error('Error updating image:', error);
+  // Calls an admin API route, dropping back to the login form if the
+  // session has expired.
+  const adminRequest = async (url: string, init: RequestInit) => {
+    const response = await fetch(url, init);
+    if (response.status === 401) setIsAuthenticated(false);
+    return response;
+  };
+
+  const updateImage = async (id: number, updates: Partial<AdminImage>) => {
+    const response = await adminRequest(`/api/admin/images/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      console.error('Error updating image:', response.status);
       setError('Failed to update image');
+      return false;
+    }
+    const updated: AdminImage = await response.json();
+    mergeImage(id, updated);
+    setError(null);
+    return true;
+  };
+
+  const handleToggleHidden = async (id: number, currentHiddenState: boolean) => {
+    await updateImage(id, { hidden: !currentHiddenState });
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const { id, ...fields } = editing;
+    if (await updateImage(id, fields)) setEditing(null);
+  };
+
+  const handleModerate = async (id: number, decision: 'approve' | 'reject') => {
+    const reason = rejectReasons[id]?.trim();
+    if (decision === 'reject' && !reason) {
+      setError('Please give a reason for the rejection');
+      return;
+    }
+    const response = await adminRequest(`/api/admin/images/${id}/moderation`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, reason }),
+    });
+
+    if (!response.ok) {
+      console.error('Error moderating image:', response.status);
+      setError('Failed to save moderation decision');
+    } else {
+      const updated: AdminImage = await response.json();
+      mergeImage(id, updated);
+      setPendingIds(prev => prev.filter(pendingId => pendingId !== id));
+      setPendingTotal(prev => prev - 1);
+      setError(null);
+    }
+  };
+
+  const handleDelete = async (image: AdminImage) => {
+    if (!window.confirm(`Delete "${image.title}" and its file permanently?`)) return;
+    const response = await adminRequest(`/api/admin/images/${image.id}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      console.error('Error deleting image:', response.status);
+      setError('Failed to delete image');
     } else {
-      setImages(images.map(img => 
-        img.id === id ? { ...img, hidden: !currentHiddenState } : img
-      ));
+      setPendingIds(prev => prev.filter(id => id !== image.id));
+      await fetchTable(tableQuery);
+      setError(null);
     }
   };
 
+  const handleReviewReports = async (imageId: number, action: 'dismiss' | 'uphold') => {
+    const response = await adminRequest(`/api/admin/reports/${imageId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action }),
+    });
+
+    if (!response.ok) {
+      console.error('Error reviewing reports:', response.status);
+      setError('Failed to review reports');
+    } else {
+      const updated: AdminImage = await response.json();
+      mergeImage(imageId, updated);
+      setReportSummaries(prev => prev.filter(summary => summary.image_id !== imageId));
+      setOpenReports(prev => prev.filter(report => report.image_id !== imageId));
+      setError(null);
+    }
+  };
+
+  const handleToggleCommentHidden = async (comment: AdminComment) => {
+    const response = await adminRequest(`/api/admin/comments/${comment.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hidden: !comment.hidden }),
+    });
+
+    if (!response.ok) {
+      console.error('Error updating comment:', response.status);
+      setError('Failed to update comment');
+    } else {
+      const updated: AdminComment = await response.json();
+      setComments(prev => prev.map(c => c.id === comment.id ? updated : c));
+      setError(null);
+    }
+  };
+
+  const handleDeleteComment = async (comment: AdminComment) => {
+    if (!window.confirm(`Delete this comment by ${comment.author_name} and all replies to it?`)) return;
+    const response = await adminRequest(`/api/admin/comments/${comment.id}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      console.error('Error deleting comment:', response.status);
+      setError('Failed to delete comment');
+    } else {
+      // Reload, since replies were deleted along with it.
+      await fetchComments();
+      setError(null);
+    }
+  };
+
+  const handleCreateChallenge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const response = await adminRequest('/api/admin/challenges', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...newChallenge,
+        // datetime-local values have no zone; send them as the admin's local time.
+        startsAt: new Date(newChallenge.startsAt).toISOString(),
+        endsAt: new Date(newChallenge.endsAt).toISOString(),
+      }),
+    });
+
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: null }));
+      console.error('Error creating challenge:', response.status);
+      setError(message || 'Failed to create challenge');
+    } else {
+      const created: Challenge = await response.json();
+      setChallenges(prev => [{ ...created, entry_count: 0 }, ...prev]);
+      setNewChallenge(EMPTY_CHALLENGE);
+      setError(null);
+    }
+  };
+
+  const handleDeleteChallenge = async (challenge: Challenge) => {
+    if (!window.confirm(`Delete the challenge "${challenge.title}"? Its entries stay in the gallery.`)) return;
+    const response = await adminRequest(`/api/admin/challenges/${challenge.id}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      console.error('Error deleting challenge:', response.status);
+      setError('Failed to delete challenge');
+    } else {
+      setChallenges(prev => prev.filter(c => c.id !== challenge.id));
+      setImagesById(prev => Object.fromEntries(Object.values(prev).map(img => [
+        img.id,
+        img.challenge_id === challenge.id ? { ...img, challenge_id: null, challenge_rank: null } : img,
+      ])));
+      setError(null);
+    }
+  };
+
+  const handleBulkAction = async (action: 'hide' | 'unhide' | 'delete') => {
+    if (action === 'delete' && !window.confirm(`Delete ${selectedIds.length} entries and their files permanently?`)) return;
+    const response = await adminRequest('/api/admin/images/bulk', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ids: selectedIds }),
+    });
+
+    if (!response.ok) {
+      console.error('Error updating images:', response.status);
+      setError(action === 'delete' ? 'Failed to delete images' : 'Failed to update images');
+      return;
+    }
+    if (action === 'delete') {
+      setPendingIds(prev => prev.filter(id => !selectedIds.includes(id)));
+      await fetchTable(tableQuery);
+    } else {
+      const { images }: { images: AdminImage[] } = await response.json();
+      cacheImages(images);
+      setSelectedIds([]);
+    }
+    setError(null);
+  };
+
+  // Filter changes start again from the first page.
+  const updateTableQuery = (changes: Partial<AdminImageQuery>) => {
+    setTableQuery(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const canModerate = !!session && hasRole(session.role, 'moderator');
+  const isOwner = session?.role === 'owner';
+  const pendingImages = pendingIds.flatMap(id => imagesById[id] ?? []);
+  const tableImages = tableIds.flatMap(id => imagesById[id] ?? []);
+  const pageCount = Math.max(1, Math.ceil(tableTotal / tableQuery.pageSize));
+  const duplicateGroups = duplicateClusters
+    .map(ids => ids.flatMap(id => imagesById[id] ?? []))
+    .filter(group => group.length > 1);
+
+  const renderPreview = (image: AdminImage) => (
+    image.media_type === 'video' && image.file_path ? (
+      <video
+        src={publicFileUrl(image.file_path)}
+        poster={image.poster_path ? publicFileUrl(image.poster_path) : undefined}
+        controls
+        muted
+        preload="none"
+        className="w-32 h-32 object-cover rounded-md bg-black"
+      />
+    ) : image.file_path ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={publicFileUrl(image.file_path)} alt={image.title} className="w-32 h-32 object-cover rounded-md" />
+    ) : image.youtube_link ? (
+      <a href={image.youtube_link} target="_blank" rel="noopener noreferrer" className="w-32 text-blue-600 underline break-all">
+        {image.youtube_link}
+      </a>
+    ) : null
+  );
+
+  const renderThumbnail = (image: AdminImage) => {
+    const path = thumbnailPath(image);
+    const src = path ? publicFileUrl(path) : image.embed_thumbnail_url;
+    return src ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={src} alt="" loading="lazy" className="w-16 h-16 object-cover rounded-md" />
+    ) : (
+      <div className="w-16 h-16 rounded-md bg-gray-200" />
+    );
+  };
+
+  // Clicking the sorted column flips the direction; other columns start
+  // with newest or most voted first and A–Z for text.
+  const renderSortHeader = (column: AdminSortColumn, label: string) => {
+    const active = tableQuery.sort === column;
+    return (
+      <th className="p-2 text-left" aria-sort={active ? (tableQuery.ascending ? 'ascending' : 'descending') : undefined}>
+        <button
+          type="button"
+          className="inline-flex items-center font-semibold"
+          onClick={() => updateTableQuery({
+            sort: column,
+            ascending: active ? !tableQuery.ascending : column !== 'created_at' && column !== 'num_votes',
+          })}
+        >
+          {label}
+          {active && (tableQuery.ascending ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />)}
+        </button>
+      </th>
+    );
+  };
+
   if (!isAuthenticated) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-100">
@@ -123,32 +632,756 @@ const AdminView: React.FC = () => {
   return (
     <div className="container mx-auto p-4">
       <h1 className="text-2xl font-bold mb-4">Admin View</h1>
-      <Button onClick={() => router.push('/')} className="mb-4">Back to Gallery</Button>
-      <div className="space-y-4">
-        {images.map(image => (
-          <Card key={image.id}>
-            <CardContent className="flex items-center justify-between p-4">
-              <div>
-                <h2 className="font-bold">{image.title}</h2>
-                <p>Artist: {image.artist}</p>
-                <p>Description: {image.description}</p>
-                <p>Stars: {image.stars}</p>
-                <p>Votes: {image.num_votes}</p>
-                <p>Created: {new Date(image.created_at).toLocaleString()}</p>
-              </div>
-              <div className="flex items-center space-x-2">
-                <span>{image.hidden ? 'Hidden' : 'Visible'}</span>
-                <Switch
-                  checked={!image.hidden}
-                  onCheckedChange={() => handleToggleHidden(image.id, image.hidden)}
+      <div className="flex items-center space-x-2 mb-4">
+        <Button onClick={() => router.push('/')}>Back to Gallery</Button>
+        <Button variant="outline" onClick={() => router.push('/admin/analytics')}>Analytics</Button>
+        <Button variant="outline" onClick={handleLogout}>Log out</Button>
+        {session && <span className="text-sm text-gray-600">{session.username} ({ADMIN_ROLES[session.role]})</span>}
+      </div>
+      {!canModerate && (
+        <p className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-3 mb-4">
+          You have read-only access. Ask an owner if you need to change content.
+        </p>
+      )}
+      {error && <p className="text-red-500 mb-4">{error}</p>}
+      <div className="flex space-x-2 mb-4 border-b">
+        <Button variant={tab === 'queue' ? 'secondary' : 'ghost'} onClick={() => setTab('queue')}>
+          Queue ({pendingTotal})
+        </Button>
+        <Button variant={tab === 'all' ? 'secondary' : 'ghost'} onClick={() => setTab('all')}>
+          All entries
+        </Button>
+        <Button variant={tab === 'reports' ? 'secondary' : 'ghost'} onClick={() => { setTab('reports'); fetchReports(); }}>
+          Reports ({reportSummaries.length})
+        </Button>
+        <Button variant={tab === 'comments' ? 'secondary' : 'ghost'} onClick={() => setTab('comments')}>
+          Comments ({comments.length})
+        </Button>
+        <Button variant={tab === 'duplicates' ? 'secondary' : 'ghost'} onClick={() => { setTab('duplicates'); fetchDuplicates(); }}>
+          Duplicates ({duplicateGroups.length})
+        </Button>
+        <Button variant={tab === 'challenges' ? 'secondary' : 'ghost'} onClick={() => setTab('challenges')}>
+          Challenges
+        </Button>
+        <Button variant={tab === 'audit' ? 'secondary' : 'ghost'} onClick={() => setTab('audit')}>
+          Audit log
+        </Button>
+        {isOwner && (
+          <Button variant={tab === 'accounts' ? 'secondary' : 'ghost'} onClick={() => setTab('accounts')}>
+            Accounts
+          </Button>
+        )}
+      </div>
+      {tab === 'reports' ? (
+        <div className="space-y-4">
+          {reportSummaries.length === 0 && <p className="text-gray-500">No open reports.</p>}
+          {reportSummaries.map(summary => {
+            const image = imagesById[summary.image_id];
+            return (
+              <Card key={summary.image_id}>
+                <CardContent className="flex items-start space-x-4 p-4">
+                  {image && renderPreview(image)}
+                  <div className="flex-1 space-y-1">
+                    <h2 className="font-bold">
+                      <a href={`/art/${summary.image_id}`} className="hover:underline">{image?.title ?? `#${summary.image_id}`}</a>
+                    </h2>
+                    {image && <p>Artist: {image.artist_name} ({image.artist})</p>}
+                    <p>
+                      {summary.report_count} open report{summary.report_count === 1 ? '' : 's'}:{' '}
+                      {Object.entries(summary.reasons)
+                        .map(([reason, count]) => `${REPORT_REASONS[reason as ReportReason]} (${count})`)
+                        .join(', ')}
+                    </p>
+                    <p>Last reported: {new Date(summary.last_reported_at).toLocaleString()}</p>
+                    {image?.auto_hidden_at && <p className="text-red-600">Hidden automatically on {new Date(image.auto_hidden_at).toLocaleString()}</p>}
+                    <ul className="list-disc pl-5 text-sm text-gray-600">
+                      {openReports.filter(report => report.image_id === summary.image_id && report.details).map(report => (
+                        <li key={report.id}>{REPORT_REASONS[report.reason]}: {report.details}</li>
+                      ))}
+                    </ul>
+                    <div className="flex space-x-2 pt-2">
+                      <Button size="sm" variant="outline" onClick={() => handleReviewReports(summary.image_id, 'dismiss')}>
+                        Dismiss reports{image?.auto_hidden_at ? ' and show' : ''}
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleReviewReports(summary.image_id, 'uphold')}>
+                        {image?.hidden ? 'Keep hidden' : 'Hide'}
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : tab === 'comments' ? (
+        <div className="space-y-4">
+          {comments.length === 0 && <p className="text-gray-500">No comments yet.</p>}
+          {comments.map(comment => (
+            <Card key={comment.id}>
+              <CardContent className="flex items-center justify-between p-4">
+                <div>
+                  <p className="text-sm text-gray-600">
+                    <span className="font-semibold text-gray-900">{comment.author_name}</span> on{' '}
+                    <a href={`/art/${comment.image_id}#comments`} className="underline">{comment.images?.title ?? `#${comment.image_id}`}</a>
+                    {' · '}{new Date(comment.created_at).toLocaleString()}
+                    {comment.parent_id && ' · reply'}
+                  </p>
+                  <p className="whitespace-pre-wrap">{comment.body}</p>
+                  {comment.voter_id && <p className="text-xs text-gray-500">Visitor {comment.voter_id}</p>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span>{comment.hidden ? 'Hidden' : 'Visible'}</span>
+                  <Switch checked={!comment.hidden} onCheckedChange={() => handleToggleCommentHidden(comment)} />
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteComment(comment)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : tab === 'duplicates' ? (
+        <div className="space-y-4">
+          {duplicateGroups.length === 0 && <p className="text-gray-500">No likely duplicates found.</p>}
+          {duplicateGroups.map(group => (
+            <Card key={group[0].id}>
+              <CardContent className="flex flex-wrap gap-4 p-4">
+                {group.map(image => (
+                  <div key={image.id} className="w-40 space-y-1 text-sm">
+                    {renderPreview(image)}
+                    <p className="font-bold">{image.title}</p>
+                    <p>{image.artist_name} ({image.artist})</p>
+                    <p>{new Date(image.created_at).toLocaleString()}</p>
+                    <p>{image.status}{image.hidden ? ', hidden' : ''}</p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={image.hidden}
+                      onClick={() => updateImage(image.id, { hidden: true })}
+                    >
+                      {image.hidden ? 'Hidden' : 'Hide'}
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : tab === 'accounts' ? (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invite an admin</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-2">
+                <Input
+                  value={newAccount.username}
+                  onChange={(e) => setNewAccount({ ...newAccount, username: e.target.value })}
+                  placeholder="Username"
+                  className="w-48"
+                  required
+                />
+                <Input
+                  type="email"
+                  value={newAccount.email}
+                  onChange={(e) => setNewAccount({ ...newAccount, email: e.target.value })}
+                  placeholder="Email"
+                  className="w-64"
+                  required
                 />
-              </div>
+                <select
+                  value={newAccount.role}
+                  onChange={(e) => setNewAccount({ ...newAccount, role: e.target.value as AdminRole })}
+                  className={SELECT_CLASS_NAME.replace('mt-1 ', '')}
+                  aria-label="Role"
+                >
+                  {Object.entries(ADMIN_ROLES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <Button type="submit">Send invitation</Button>
+              </form>
+              <p className="text-sm text-gray-600 mt-2">
+                Viewers can look at everything, moderators can also change content, owners can also manage accounts.
+              </p>
             </CardContent>
           </Card>
-        ))}
-      </div>
+          {setupLink && (
+            <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 space-y-2" role="status">
+              <p>
+                {setupLink.emailSent
+                  ? `We emailed ${setupLink.username} a link to set their password. You can also pass it on yourself:`
+                  : `The email to ${setupLink.username} could not be sent. Pass this link on yourself:`}
+              </p>
+              <Input readOnly value={setupLink.url} onFocus={(e) => e.target.select()} />
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b">
+                <tr>
+                  <th className="p-2 text-left">Username</th>
+                  <th className="p-2 text-left">Email</th>
+                  <th className="p-2 text-left">Role</th>
+                  <th className="p-2 text-left">Status</th>
+                  <th className="p-2 text-left">Last login</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map(account => {
+                  const self = account.username === session?.username;
+                  return (
+                    <tr key={account.id} className="border-b">
+                      <td className="p-2">
+                        {account.username}
+                        {self && <span className="text-gray-500"> (you)</span>}
+                      </td>
+                      <td className="p-2">{account.email}</td>
+                      <td className="p-2">
+                        <select
+                          value={account.role}
+                          onChange={(e) => updateAccount(account, { role: e.target.value as AdminRole })}
+                          disabled={self}
+                          className={SELECT_CLASS_NAME.replace('mt-1 ', '')}
+                          aria-label={`Role of ${account.username}`}
+                        >
+                          {Object.entries(ADMIN_ROLES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                      </td>
+                      <td className="p-2">
+                        {account.disabled_at ? 'Disabled' : account.has_password ? 'Active' : 'Invited'}
+                        {account.invited_by && <p className="text-gray-500">invited by {account.invited_by}</p>}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">
+                        {account.last_login_at ? new Date(account.last_login_at).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="p-2 whitespace-nowrap space-x-2">
+                        {!self && (
+                          <Button size="sm" variant="outline" onClick={() => updateAccount(account, { disabled: !account.disabled_at })}>
+                            {account.disabled_at ? 'Enable' : 'Disable'}
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => handleResetPassword(account)}>
+                          Reset password
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : tab === 'challenges' ? (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>New challenge</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreateChallenge} className="space-y-2">
+                <Input
+                  value={newChallenge.title}
+                  onChange={(e) => setNewChallenge({ ...newChallenge, title: e.target.value })}
+                  placeholder="Theme"
+                  required
+                />
+                <Textarea
+                  value={newChallenge.description}
+                  onChange={(e) => setNewChallenge({ ...newChallenge, description: e.target.value })}
+                  placeholder="Description"
+                />
+                <div className="flex space-x-2">
+                  <label className="flex-1 text-sm text-gray-600">
+                    Starts
+                    <Input
+                      type="datetime-local"
+                      value={newChallenge.startsAt}
+                      onChange={(e) => setNewChallenge({ ...newChallenge, startsAt: e.target.value })}
+                      required
+                    />
+                  </label>
+                  <label className="flex-1 text-sm text-gray-600">
+                    Ends
+                    <Input
+                      type="datetime-local"
+                      value={newChallenge.endsAt}
+                      onChange={(e) => setNewChallenge({ ...newChallenge, endsAt: e.target.value })}
+                      required
+                    />
+                  </label>
+                </div>
+                <Button type="submit" size="sm">Create challenge</Button>
+              </form>
+            </CardContent>
+          </Card>
+          {challenges.map(challenge => (
+            <Card key={challenge.id}>
+              <CardContent className="flex items-center justify-between p-4">
+                <div>
+                  <h2 className="font-bold">
+                    <a href={`/challenges/${challenge.id}`} className="hover:underline">{challenge.title}</a>
+                  </h2>
+                  <p>
+                    {new Date(challenge.starts_at).toLocaleString()} – {new Date(challenge.ends_at).toLocaleString()}
+                  </p>
+                  <p>Status: {challengePhase(challenge)}</p>
+                  <p>Entries: {challenge.entry_count}</p>
+                  {challenge.winners_announced_at && (
+                    <p>Winners announced {new Date(challenge.winners_announced_at).toLocaleString()}</p>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteChallenge(challenge)}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : tab === 'audit' ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                const targetId = Number(auditFilters.targetId);
+                updateAuditQuery({
+                  admin: auditFilters.admin.trim() || null,
+                  targetId: Number.isInteger(targetId) && targetId > 0 ? targetId : null,
+                });
+              }}
+              className="flex items-end space-x-2"
+            >
+              <label className="text-sm text-gray-600">
+                Admin
+                <Input
+                  value={auditFilters.admin}
+                  onChange={(e) => setAuditFilters({ ...auditFilters, admin: e.target.value })}
+                  placeholder="Username"
+                  className="mt-1 w-40"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Target id
+                <Input
+                  value={auditFilters.targetId}
+                  onChange={(e) => setAuditFilters({ ...auditFilters, targetId: e.target.value })}
+                  inputMode="numeric"
+                  className="mt-1 w-28"
+                />
+              </label>
+              <Button type="submit" variant="outline">Apply</Button>
+            </form>
+            <label className="text-sm text-gray-600">
+              Action
+              <select
+                value={auditQuery.action ?? ''}
+                onChange={(e) => updateAuditQuery({ action: (e.target.value || null) as AuditAction | null })}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">All actions</option>
+                {Object.entries(AUDIT_ACTIONS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Target
+              <select
+                value={auditQuery.targetType ?? ''}
+                onChange={(e) => updateAuditQuery({ targetType: (e.target.value || null) as AuditTargetType | null })}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Any target</option>
+                {AUDIT_TARGET_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              From
+              <Input
+                type="date"
+                value={auditQuery.from ?? ''}
+                onChange={(e) => updateAuditQuery({ from: e.target.value || null })}
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              To
+              <Input
+                type="date"
+                value={auditQuery.to ?? ''}
+                onChange={(e) => updateAuditQuery({ to: e.target.value || null })}
+                className="mt-1"
+              />
+            </label>
+            <Button variant="ghost" onClick={() => { setAuditFilters({ admin: '', targetId: '' }); setAuditQuery(DEFAULT_AUDIT_QUERY); }}>
+              Reset
+            </Button>
+            <a
+              href={`/api/admin/audit?${new URLSearchParams({ ...auditQueryToParams({ ...auditQuery, page: 1 }), format: 'csv' })}`}
+              className="inline-flex items-center h-10 text-sm text-blue-600 underline"
+            >
+              Download CSV
+            </a>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b">
+                <tr>
+                  <th className="p-2 text-left">Time</th>
+                  <th className="p-2 text-left">Admin</th>
+                  <th className="p-2 text-left">Action</th>
+                  <th className="p-2 text-left">Target</th>
+                  <th className="p-2 text-left">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {auditEntries.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-4 text-center text-gray-500">No matching entries.</td>
+                  </tr>
+                )}
+                {auditEntries.map(entry => (
+                  <tr key={entry.id} className="border-b align-top">
+                    <td className="p-2 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                    <td className="p-2">{entry.admin_username}</td>
+                    <td className="p-2">{AUDIT_ACTIONS[entry.action] ?? entry.action}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {entry.target_type === 'image' && entry.action !== 'delete' ? (
+                        <a href={`/art/${entry.target_id}`} className="underline">image #{entry.target_id}</a>
+                      ) : entry.target_type === 'challenge' && entry.action !== 'delete' ? (
+                        <a href={`/challenges/${entry.target_id}`} className="underline">challenge #{entry.target_id}</a>
+                      ) : entry.target_type ? (
+                        `${entry.target_type} #${entry.target_id}`
+                      ) : null}
+                    </td>
+                    <td className="p-2 text-gray-700">
+                      {describeChanges(entry).map(change => <p key={change} className="break-all">{change}</p>)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>{auditTotal} entr{auditTotal === 1 ? 'y' : 'ies'}</span>
+            <div className="flex items-center space-x-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={auditQuery.page <= 1}
+                onClick={() => setAuditQuery(prev => ({ ...prev, page: prev.page - 1 }))}
+              >
+                Previous
+              </Button>
+              <span>Page {auditQuery.page} of {Math.max(1, Math.ceil(auditTotal / AUDIT_PAGE_SIZE))}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={auditQuery.page * AUDIT_PAGE_SIZE >= auditTotal}
+                onClick={() => setAuditQuery(prev => ({ ...prev, page: prev.page + 1 }))}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : tab === 'queue' ? (
+        <div className="space-y-4">
+          {pendingImages.length === 0 && <p className="text-gray-500">No submissions waiting for review.</p>}
+          {pendingTotal > pendingIds.length && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>
+                Showing the oldest {pendingIds.length} of {pendingTotal} waiting submissions. Review these, then load the next ones.
+              </span>
+              <Button size="sm" variant="outline" onClick={fetchQueue}>Load next</Button>
+            </div>
+          )}
+          {pendingImages.map(image => (
+            <Card key={image.id}>
+              <CardContent className="flex items-start space-x-4 p-4">
+                {renderPreview(image)}
+                <div className="flex-1 space-y-2">
+                  <h2 className="font-bold">{image.title}</h2>
+                  <p>Artist: {image.artist_name} ({image.artist})</p>
+                  <p>Description: {image.description}</p>
+                  <p>Submitted: {new Date(image.created_at).toLocaleString()}</p>
+                  {!image.email_verified_at && <p className="text-amber-600">Email not confirmed yet; stays unpublished until it is.</p>}
+                  <Input
+                    value={rejectReasons[image.id] || ''}
+                    onChange={(e) => setRejectReasons({ ...rejectReasons, [image.id]: e.target.value })}
+                    placeholder="Rejection reason"
+                  />
+                  <div className="flex space-x-2">
+                    <Button size="sm" onClick={() => handleModerate(image.id, 'approve')}>Approve</Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleModerate(image.id, 'reject')}>Reject</Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <form
+              onSubmit={(e) => { e.preventDefault(); updateTableQuery({ q: searchInput.trim() || null }); }}
+              className="flex items-end space-x-2"
+            >
+              <label className="text-sm text-gray-600">
+                Search
+                <Input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Title, artist or email"
+                  className="mt-1 w-64"
+                />
+              </label>
+              <Button type="submit" variant="outline">Search</Button>
+            </form>
+            <label className="text-sm text-gray-600">
+              Status
+              <select
+                value={tableQuery.status ?? ''}
+                onChange={(e) => updateTableQuery({ status: (e.target.value || null) as AdminImage['status'] | null })}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Any status</option>
+                <option value="pending">Pending</option>
+                <option value="approved">Approved</option>
+                <option value="rejected">Rejected</option>
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Visibility
+              <select
+                value={tableQuery.hidden === null ? '' : String(tableQuery.hidden)}
+                onChange={(e) => updateTableQuery({ hidden: e.target.value ? e.target.value === 'true' : null })}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Visible and hidden</option>
+                <option value="false">Visible</option>
+                <option value="true">Hidden</option>
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Type
+              <select
+                value={tableQuery.mediaType ?? ''}
+                onChange={(e) => updateTableQuery({ mediaType: (e.target.value || null) as MediaTypeFilter | null })}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">All media</option>
+                {Object.entries(MEDIA_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              From
+              <Input
+                type="date"
+                value={tableQuery.from ?? ''}
+                onChange={(e) => updateTableQuery({ from: e.target.value || null })}
+                className="mt-1"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              To
+              <Input
+                type="date"
+                value={tableQuery.to ?? ''}
+                onChange={(e) => updateTableQuery({ to: e.target.value || null })}
+                className="mt-1"
+              />
+            </label>
+            <label className="flex items-center space-x-2 h-10 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={tableQuery.reported}
+                onChange={(e) => updateTableQuery({ reported: e.target.checked })}
+              />
+              <span>Reported only</span>
+            </label>
+            <Button variant="ghost" onClick={() => { setSearchInput(''); setTableQuery(DEFAULT_ADMIN_IMAGE_QUERY); }}>
+              Reset
+            </Button>
+          </div>
+
+          {canModerate && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+              <Button size="sm" variant="outline" disabled={selectedIds.length === 0} onClick={() => handleBulkAction('hide')}>Hide</Button>
+              <Button size="sm" variant="outline" disabled={selectedIds.length === 0} onClick={() => handleBulkAction('unhide')}>Unhide</Button>
+              <Button size="sm" variant="destructive" disabled={selectedIds.length === 0} onClick={() => handleBulkAction('delete')}>Delete</Button>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b">
+                <tr>
+                  <th className="p-2">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all on this page"
+                      checked={tableImages.length > 0 && selectedIds.length === tableImages.length}
+                      onChange={(e) => setSelectedIds(e.target.checked ? tableImages.map(image => image.id) : [])}
+                    />
+                  </th>
+                  <th className="p-2 text-left">Preview</th>
+                  {renderSortHeader('title', 'Title')}
+                  {renderSortHeader('artist_name', 'Artist')}
+                  {renderSortHeader('media_type', 'Type')}
+                  {renderSortHeader('status', 'Status')}
+                  {renderSortHeader('num_votes', 'Rating')}
+                  {renderSortHeader('created_at', 'Created')}
+                  <th className="p-2 text-left">Visible</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {tableImages.length === 0 && (
+                  <tr>
+                    <td colSpan={10} className="p-4 text-center text-gray-500">No entries match these filters.</td>
+                  </tr>
+                )}
+                {tableImages.map(image => editing?.id === image.id ? (
+                  <tr key={image.id} className="border-b">
+                    <td colSpan={10} className="p-2">
+                      <form onSubmit={handleSaveEdit} className="space-y-2">
+                        <Input
+                          value={editing.title}
+                          onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                          placeholder="Title"
+                          required
+                        />
+                        <Textarea
+                          value={editing.description}
+                          onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                          placeholder="Prompt"
+                          required
+                        />
+                        <Input
+                          value={editing.artist_name}
+                          onChange={(e) => setEditing({ ...editing, artist_name: e.target.value })}
+                          placeholder="Artist Name"
+                          required
+                        />
+                        <div className="flex space-x-2">
+                          <Button type="submit" size="sm">Save</Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                        </div>
+                      </form>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={image.id} className="border-b align-top">
+                    <td className="p-2">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${image.title}`}
+                        checked={selectedIds.includes(image.id)}
+                        onChange={(e) => setSelectedIds(prev => e.target.checked ? [...prev, image.id] : prev.filter(id => id !== image.id))}
+                      />
+                    </td>
+                    <td className="p-2">{renderThumbnail(image)}</td>
+                    <td className="p-2 max-w-xs">
+                      <a href={`/art/${image.id}`} className="font-semibold hover:underline">{image.title}</a>
+                      <p className="text-gray-600 line-clamp-2" title={image.description}>{image.description}</p>
+                    </td>
+                    <td className="p-2">
+                      {image.artist_name}
+                      <p className="text-gray-600">{image.artist}</p>
+                    </td>
+                    <td className="p-2">{image.media_type}</td>
+                    <td className="p-2">
+                      {image.status}
+                      {image.rejection_reason && <p className="text-gray-600">{image.rejection_reason}</p>}
+                      {image.moderated_by && <p className="text-gray-600">by {image.moderated_by}</p>}
+                      {!image.email_verified_at && <p className="text-amber-600">Email not confirmed</p>}
+                    </td>
+                    <td
+                      className="p-2 whitespace-nowrap"
+                      title={distributions[image.id] ? [
+                        `1★ ${distributions[image.id].one_star}`,
+                        `2★ ${distributions[image.id].two_stars}`,
+                        `3★ ${distributions[image.id].three_stars}`,
+                        `4★ ${distributions[image.id].four_stars}`,
+                        `5★ ${distributions[image.id].five_stars}`,
+                      ].join(' · ') : undefined}
+                    >
+                      {formatAverage(image.stars, image.num_votes)}
+                      <p className="text-gray-600">{image.num_votes} votes</p>
+                    </td>
+                    <td className="p-2 whitespace-nowrap">{new Date(image.created_at).toLocaleString()}</td>
+                    <td className="p-2">
+                      <Switch
+                        checked={!image.hidden}
+                        onCheckedChange={() => handleToggleHidden(image.id, image.hidden)}
+                        aria-label={image.hidden ? 'Show' : 'Hide'}
+                      />
+                      {image.auto_hidden_at && <p className="text-red-600">Hidden by reports</p>}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing({ id: image.id, title: image.title, description: image.description, artist_name: image.artist_name })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(image)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {tableTotal === 0
+                ? 'No entries'
+                : `${(tableQuery.page - 1) * tableQuery.pageSize + 1}–${Math.min(tableQuery.page * tableQuery.pageSize, tableTotal)} of ${tableTotal}`}
+            </span>
+            <div className="flex items-center space-x-2">
+              <select
+                value={tableQuery.pageSize}
+                onChange={(e) => updateTableQuery({ pageSize: Number(e.target.value) })}
+                className={SELECT_CLASS_NAME.replace('mt-1 ', '')}
+                aria-label="Entries per page"
+              >
+                {ADMIN_PAGE_SIZES.map(size => <option key={size} value={size}>{size} per page</option>)}
+              </select>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={tableQuery.page <= 1}
+                onClick={() => setTableQuery(prev => ({ ...prev, page: prev.page - 1 }))}
+              >
+                Previous
+              </Button>
+              <span>Page {tableQuery.page} of {pageCount}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={tableQuery.page >= pageCount}
+                onClick={() => setTableQuery(prev => ({ ...prev, page: prev.page + 1 }))}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default AdminView;
\ No newline at end of file
+export default AdminView;
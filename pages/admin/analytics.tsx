@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeft, Download } from 'lucide-react';
+import BarChart from '../../components/BarChart';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Button } from '../../components/ui/button';
+import { ANALYTICS_BUCKETS, AnalyticsBucket, AnalyticsQuery, analyticsQueryToParams, parseAnalyticsQuery } from '../../lib/analyticsQuery';
+import type { AnalyticsData, AnalyticsReport } from '../../lib/analyticsQuery';
+import { MEDIA_TYPE_LABELS } from '../../lib/feedQuery';
+
+const SELECT_CLASS_NAME = 'h-10 rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+function formatRating(rating: number | null): string {
+  return rating === null ? '–' : rating.toFixed(2);
+}
+
+// Gallery statistics for admins of every role: activity over time, the
+// period's top artworks and artists, media types and challenges. The
+// period lives in the query string so a view can be shared.
+const AnalyticsPage: React.FC = () => {
+  const router = useRouter();
+  const analyticsQuery = parseAnalyticsQuery(router.query);
+  const queryKey = JSON.stringify(analyticsQuery);
+  const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [authenticated, setAuthenticated] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    setLoading(true);
+    fetch(`/api/admin/analytics?${new URLSearchParams(analyticsQueryToParams(analyticsQuery))}`)
+      .then(async response => {
+        if (response.status === 401) {
+          setAuthenticated(false);
+          return;
+        }
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.message);
+        setAnalytics(result);
+        setError(null);
+      })
+      .catch(error => setError(error.message || 'Failed to load analytics.'))
+      .finally(() => setLoading(false));
+    // analyticsQuery is rebuilt on every render; queryKey captures it.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, queryKey]);
+
+  const updateQuery = (changes: Partial<AnalyticsQuery>) => {
+    router.replace({ pathname: router.pathname, query: analyticsQueryToParams({ ...analyticsQuery, ...changes }) }, undefined, { shallow: true });
+  };
+
+  const csvUrl = (report: AnalyticsReport) =>
+    `/api/admin/analytics?${new URLSearchParams({ ...analyticsQueryToParams(analyticsQuery), format: 'csv', report })}`;
+
+  const renderCsvLink = (report: AnalyticsReport) => (
+    <a href={csvUrl(report)} className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+      <Download className="mr-1 h-4 w-4" /> CSV
+    </a>
+  );
+
+  const bucketLabel = (bucket: string) => analytics?.bucket === 'week' ? `Week of ${bucket}` : bucket;
+  const totalSubmissions = analytics?.activity.reduce((sum, point) => sum + point.submissions, 0) ?? 0;
+  const totalVotes = analytics?.activity.reduce((sum, point) => sum + point.votes, 0) ?? 0;
+
+  if (!authenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-100">
+        <p>
+          <Link href="/admin" className="underline">Log in</Link> to see the analytics.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Head>
+        <title>Analytics – /Imagine AI Gallery</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <Link href="/admin" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="mr-1 h-4 w-4" /> Back to admin
+      </Link>
+      <h1 className="text-2xl font-bold">Analytics</h1>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="text-sm">
+          From
+          <Input
+            type="date"
+            value={analyticsQuery.from ?? analytics?.from ?? ''}
+            onChange={(e) => updateQuery({ from: e.target.value || null })}
+          />
+        </label>
+        <label className="text-sm">
+          To
+          <Input
+            type="date"
+            value={analyticsQuery.to ?? analytics?.to ?? ''}
+            onChange={(e) => updateQuery({ to: e.target.value || null })}
+          />
+        </label>
+        <select
+          value={analyticsQuery.bucket}
+          onChange={(e) => updateQuery({ bucket: e.target.value as AnalyticsBucket })}
+          className={SELECT_CLASS_NAME}
+          aria-label="Grouping"
+        >
+          {Object.entries(ANALYTICS_BUCKETS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <Button variant="ghost" onClick={() => router.replace(router.pathname, undefined, { shallow: true })}>
+          Last 30 days
+        </Button>
+        {loading && <span className="text-sm text-gray-500">Loading...</span>}
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {analytics && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Submissions ({totalSubmissions})</CardTitle>
+                {renderCsvLink('activity')}
+              </CardHeader>
+              <CardContent>
+                <BarChart
+                  title={`Submissions ${ANALYTICS_BUCKETS[analytics.bucket].toLowerCase()}`}
+                  data={analytics.activity.map(point => ({ label: bucketLabel(point.bucket), value: point.submissions }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Votes ({totalVotes})</CardTitle>
+                {renderCsvLink('activity')}
+              </CardHeader>
+              <CardContent>
+                <BarChart
+                  title={`Votes ${ANALYTICS_BUCKETS[analytics.bucket].toLowerCase()}`}
+                  data={analytics.activity.map(point => ({ label: bucketLabel(point.bucket), value: point.votes }))}
+                  barClassName="bg-yellow-500"
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Top artworks</CardTitle>
+                {renderCsvLink('top_images')}
+              </CardHeader>
+              <CardContent>
+                {analytics.topImages.length === 0 ? (
+                  <p className="text-gray-500">No votes in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="border-b">
+                      <tr>
+                        <th className="p-2 text-left">Artwork</th>
+                        <th className="p-2 text-right">Votes</th>
+                        <th className="p-2 text-right">Average</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.topImages.map(image => (
+                        <tr key={image.id} className="border-b">
+                          <td className="p-2">
+                            <Link href={`/art/${image.id}`} className="hover:underline">{image.title}</Link>
+                            <p className="text-gray-500">{image.artist_name} · {MEDIA_TYPE_LABELS[image.media_type]}</p>
+                          </td>
+                          <td className="p-2 text-right">{image.votes}</td>
+                          <td className="p-2 text-right">{formatRating(image.average_rating)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Top artists</CardTitle>
+                {renderCsvLink('top_artists')}
+              </CardHeader>
+              <CardContent>
+                {analytics.topArtists.length === 0 ? (
+                  <p className="text-gray-500">No submissions or votes in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="border-b">
+                      <tr>
+                        <th className="p-2 text-left">Artist</th>
+                        <th className="p-2 text-right">Submissions</th>
+                        <th className="p-2 text-right">Votes</th>
+                        <th className="p-2 text-right">Average</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.topArtists.map(artist => (
+                        <tr key={artist.artist_slug} className="border-b">
+                          <td className="p-2">
+                            <Link href={`/artist/${artist.artist_slug}`} className="hover:underline">{artist.artist_name}</Link>
+                          </td>
+                          <td className="p-2 text-right">{artist.submissions}</td>
+                          <td className="p-2 text-right">{artist.votes}</td>
+                          <td className="p-2 text-right">{formatRating(artist.average_rating)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Media types</CardTitle>
+                {renderCsvLink('media_types')}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {analytics.mediaTypes.length === 0 && <p className="text-gray-500">No submissions in this period.</p>}
+                {analytics.mediaTypes.map(type => {
+                  const share = totalSubmissions ? Math.round((type.submissions / totalSubmissions) * 100) : 0;
+                  return (
+                    <div key={type.media_type}>
+                      <div className="flex justify-between text-sm">
+                        <span>{MEDIA_TYPE_LABELS[type.media_type]}</span>
+                        <span className="text-gray-600">{type.submissions} ({share}%)</span>
+                      </div>
+                      <div className="h-2 rounded bg-gray-100">
+                        <div className="h-2 rounded bg-blue-500" style={{ width: `${share}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Challenge participation</CardTitle>
+                {renderCsvLink('challenges')}
+              </CardHeader>
+              <CardContent>
+                {analytics.challenges.length === 0 ? (
+                  <p className="text-gray-500">No challenges ran in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="border-b">
+                      <tr>
+                        <th className="p-2 text-left">Challenge</th>
+                        <th className="p-2 text-right">Entries</th>
+                        <th className="p-2 text-right">Artists</th>
+                        <th className="p-2 text-right">Votes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.challenges.map(challenge => (
+                        <tr key={challenge.id} className="border-b">
+                          <td className="p-2">
+                            <Link href={`/challenges/${challenge.id}`} className="hover:underline">{challenge.title}</Link>
+                            <p className="text-gray-500">
+                              {new Date(challenge.starts_at).toLocaleDateString()} – {new Date(challenge.ends_at).toLocaleDateString()}
+                            </p>
+                          </td>
+                          <td className="p-2 text-right">{challenge.entries}</td>
+                          <td className="p-2 text-right">{challenge.artists}</td>
+                          <td className="p-2 text-right">{challenge.votes}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPage;
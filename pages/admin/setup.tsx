@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Button } from '../../components/ui/button';
+import { MIN_PASSWORD_LENGTH } from '../../lib/adminRoles';
+
+// Where invited admins, and admins whose password was reset, choose a
+// password. The one-time token comes from the emailed link.
+const AdminSetupPage: React.FC = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmation) {
+      setError('The passwords do not match.');
+      return;
+    }
+    const response = await fetch('/api/admin-setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password }),
+    });
+    const result = await response.json().catch(() => ({ message: null }));
+    if (!response.ok) {
+      setError(result.message || 'Failed to set the password. Please try again.');
+      return;
+    }
+    setError(null);
+    setUsername(result.username);
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100">
+      <Head>
+        <title>Set your password – /Imagine AI Gallery</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Set your admin password</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {username ? (
+            <p>
+              Your password is set. <Link href="/admin" className="underline">Log in</Link> as <strong>{username}</strong>.
+            </p>
+          ) : !token ? (
+            <p className="text-red-500">This link is incomplete. Open the link from your email again.</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                type="password"
+                placeholder={`New password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                required
+              />
+              <Input
+                type="password"
+                placeholder="Repeat the password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+              <Button type="submit" className="w-full">Set password</Button>
+              {error && <p className="text-red-500">{error}</p>}
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminSetupPage;
@@ -1,27 +1,100 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { serialize } from 'cookie';
+import { createSessionToken, hashPassword, safeEqual, setSessionCookie, verifyPassword } from '../../lib/adminAuth';
+import { recordAudit } from '../../lib/auditLog';
+import { createRateLimiter } from '../../lib/rateLimit';
+import { getClientIp } from '../../lib/request';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
+// Five failed attempts from one address lock it out for fifteen minutes.
+const failedLogins = createRateLimiter({ limit: 5, windowMs: 15 * 60 * 1000 });
+
+// Checked when the account doesn't exist, so a wrong username takes as long
+// as a wrong password.
+const DUMMY_PASSWORD_HASH = hashPassword('not a real password');
+
+// Logged as the actor of failed logins; the name the caller typed goes into
+// the entry's details instead, so it can't pose as a real admin. No valid
+// username contains parentheses.
+const ANONYMOUS_ACTOR = '(anonymous)';
+
+interface LoginAccount {
+  id: number;
+  username: string;
+  password_hash: string | null;
+  disabled_at: string | null;
+}
+
+// The first login with ADMIN_USERNAME and ADMIN_PASSWORD_HASH, while there
+// are no accounts yet, creates the first owner from them.
+async function bootstrapOwner(username: string, password: string): Promise<LoginAccount | null> {
+  const envUsername = process.env.ADMIN_USERNAME?.toLowerCase();
+  const envHash = process.env.ADMIN_PASSWORD_HASH;
+  if (!envUsername || !envHash || !safeEqual(username, envUsername) || !verifyPassword(password, envHash)) return null;
+
+  const { count, error: countError } = await supabaseAdmin
+    .from('admin_accounts')
+    .select('id', { count: 'exact', head: true });
+  if (countError) throw countError;
+  if (count) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('admin_accounts')
+    .insert({ username: envUsername, email: '', role: 'owner', password_hash: envHash })
+    .select('id, username, password_hash, disabled_at')
+    .single<LoginAccount>();
+  if (error) throw error;
+  return data;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'POST') {
-    const { username, password } = req.body;
-
-    // Use process.env to access environment variables
-    if (username === process.env.ADMIN_USERNAME && password === process.env.ADMIN_PASSWORD) {
-      // Set a session cookie
-      res.setHeader('Set-Cookie', serialize('admin_session', 'true', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV !== 'development',
-        sameSite: 'strict',
-        maxAge: 3600,
-        path: '/',
-      }));
+    const ip = getClientIp(req);
+    const retryAfter = failedLogins.retryAfter(ip);
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ success: false, message: 'Too many failed attempts. Try again later.' });
+    }
+
+    const { username: rawUsername, password } = req.body ?? {};
+    const username = typeof rawUsername === 'string' ? rawUsername.trim().toLowerCase() : '';
+    if (!username || typeof password !== 'string') {
+      failedLogins.hit(ip);
+      return res.status(401).json({ success: false, message: 'Invalid credentials' });
+    }
+
+    let account: LoginAccount | null;
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('admin_accounts')
+        .select('id, username, password_hash, disabled_at')
+        .eq('username', username)
+        .maybeSingle<LoginAccount>();
+      if (error) throw error;
+      account = data ?? await bootstrapOwner(username, password);
+    } catch (error) {
+      console.error('Error looking up admin account:', error);
+      return res.status(500).json({ success: false, message: 'Failed to log in' });
+    }
 
+    const passwordMatches = verifyPassword(password, account?.password_hash ?? DUMMY_PASSWORD_HASH);
+    if (account && account.password_hash && passwordMatches && !account.disabled_at) {
+      failedLogins.reset(ip);
+      setSessionCookie(res, createSessionToken(account.username));
+      const { error } = await supabaseAdmin
+        .from('admin_accounts')
+        .update({ last_login_at: new Date().toISOString() })
+        .eq('id', account.id);
+      if (error) console.error('Error recording login time:', error);
+      await recordAudit(account.username, { action: 'login', targetType: 'admin', targetId: account.id, after: { ip } });
       res.status(200).json({ success: true });
     } else {
+      failedLogins.hit(ip);
+      // At most five entries per address per lockout window, see failedLogins.
+      await recordAudit(ANONYMOUS_ACTOR, { action: 'login_failed', after: { username: username.slice(0, 64), ip } });
       res.status(401).json({ success: false, message: 'Invalid credentials' });
     }
   } else {
     res.setHeader('Allow', ['POST']);
     res.status(405).end(`Method ${req.method} Not Allowed`);
   }
-}
\ No newline at end of file
+}
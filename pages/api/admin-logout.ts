@@ -0,0 +1,15 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { clearSessionCookie, getAdminSession } from '../../lib/adminAuth';
+import { recordAudit } from '../../lib/auditLog';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    const session = getAdminSession(req);
+    clearSessionCookie(res);
+    if (session) await recordAudit(session.username, { action: 'logout' });
+    res.status(200).json({ success: true });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hashPassword, hashSetupToken } from '../../lib/adminAuth';
+import { MIN_PASSWORD_LENGTH } from '../../lib/adminRoles';
+import { recordAudit } from '../../lib/auditLog';
+import { createRateLimiter } from '../../lib/rateLimit';
+import { getClientIp } from '../../lib/request';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+
+// Ten attempts per address every fifteen minutes.
+const setupLimiter = createRateLimiter({ limit: 10, windowMs: 15 * 60 * 1000 });
+
+// Sets an admin's password from an invitation or reset link. The link
+// works once.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    const retryAfter = setupLimiter.hit(getClientIp(req));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ message: 'Too many attempts. Try again later.' });
+    }
+
+    const { token, password } = req.body ?? {};
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ message: 'This link is invalid.' });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `Use at least ${MIN_PASSWORD_LENGTH} characters.` });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_accounts')
+      .update({
+        password_hash: hashPassword(password),
+        password_changed_at: new Date().toISOString(),
+        setup_token_hash: null,
+        setup_token_expires_at: null,
+      })
+      .eq('setup_token_hash', hashSetupToken(token))
+      .gt('setup_token_expires_at', new Date().toISOString())
+      .is('disabled_at', null)
+      .select('id, username')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error setting admin password:', error);
+      return res.status(500).json({ message: 'Failed to set password' });
+    }
+    if (!data) {
+      return res.status(400).json({ message: 'This link is invalid or has expired. Ask an owner for a new one.' });
+    }
+    await recordAudit(data.username, { action: 'set_password', targetType: 'admin', targetId: data.id });
+    res.status(200).json({ username: data.username });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_ACCOUNT_COLUMNS, AdminAccountRow, requireAdmin, toAdminAccount } from '../../../../../lib/adminAuth';
+import { isAdminRole } from '../../../../../lib/adminRoles';
+import { AuditRecord, recordAudit } from '../../../../../lib/auditLog';
+import { parseId } from '../../../../../lib/request';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+
+// Changes an account's role or disables/enables it. Owners only, and not on
+// their own account, so there is always an owner left who can undo it.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'owner');
+  if (!session) return;
+
+  const id = parseId(req.query.id);
+  if (!id) {
+    return res.status(400).json({ message: 'Invalid account id' });
+  }
+
+  if (req.method === 'PATCH') {
+    const { role, disabled } = req.body ?? {};
+    const updates: Record<string, string | null> = {};
+    if (role !== undefined) {
+      if (!isAdminRole(role)) return res.status(400).json({ message: 'Choose a role.' });
+      updates.role = role;
+    }
+    if (disabled !== undefined) {
+      if (typeof disabled !== 'boolean') return res.status(400).json({ message: 'disabled must be a boolean' });
+      updates.disabled_at = disabled ? new Date().toISOString() : null;
+    }
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ message: 'Nothing to update' });
+    }
+    if (id === session.id) {
+      return res.status(400).json({ message: 'You cannot change your own role or disable your own account.' });
+    }
+
+    const { data: before, error: lookupError } = await supabaseAdmin
+      .from('admin_accounts')
+      .select(ADMIN_ACCOUNT_COLUMNS)
+      .eq('id', id)
+      .maybeSingle<AdminAccountRow>();
+    if (lookupError) {
+      console.error('Error looking up admin account:', lookupError);
+      return res.status(500).json({ message: 'Failed to update account' });
+    }
+    if (!before) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_accounts')
+      .update(updates)
+      .eq('id', id)
+      .select(ADMIN_ACCOUNT_COLUMNS)
+      .single<AdminAccountRow>();
+    if (error) {
+      console.error('Error updating admin account:', error);
+      return res.status(500).json({ message: 'Failed to update account' });
+    }
+
+    const records: AuditRecord[] = [];
+    if (updates.role !== undefined && before.role !== data.role) {
+      records.push({ action: 'change_role', targetType: 'admin', targetId: id, before: { role: before.role }, after: { role: data.role } });
+    }
+    if (updates.disabled_at !== undefined && !before.disabled_at !== !data.disabled_at) {
+      records.push({
+        action: data.disabled_at ? 'disable' : 'enable',
+        targetType: 'admin',
+        targetId: id,
+        before: { disabled_at: before.disabled_at },
+        after: { disabled_at: data.disabled_at },
+      });
+    }
+    await recordAudit(session.username, records);
+    res.status(200).json(toAdminAccount(data));
+  } else {
+    res.setHeader('Allow', ['PATCH']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
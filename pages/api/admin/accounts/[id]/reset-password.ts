@@ -0,0 +1,58 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  ADMIN_ACCOUNT_COLUMNS, AdminAccountRow, createSetupToken, requireAdmin, sendSetupLink, setupLinkUrl, toAdminAccount,
+} from '../../../../../lib/adminAuth';
+import { recordAudit } from '../../../../../lib/auditLog';
+import { parseId } from '../../../../../lib/request';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+
+// Clears an account's password, which also ends its sessions, and sends a
+// new setup link. Owners only.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'owner');
+  if (!session) return;
+
+  if (req.method === 'POST') {
+    const id = parseId(req.query.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid account id' });
+    }
+
+    const setup = createSetupToken();
+    const { data, error } = await supabaseAdmin
+      .from('admin_accounts')
+      .update({
+        password_hash: null,
+        password_changed_at: new Date().toISOString(),
+        setup_token_hash: setup.hash,
+        setup_token_expires_at: setup.expiresAt,
+      })
+      .eq('id', id)
+      .select(ADMIN_ACCOUNT_COLUMNS)
+      .maybeSingle<AdminAccountRow>();
+
+    if (error) {
+      console.error('Error resetting admin password:', error);
+      return res.status(500).json({ message: 'Failed to reset password' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+    await recordAudit(session.username, { action: 'reset_password', targetType: 'admin', targetId: id });
+
+    const setupUrl = setupLinkUrl(setup.token);
+    let emailSent = !!data.email;
+    if (emailSent) {
+      try {
+        await sendSetupLink(data, setupUrl, 'reset');
+      } catch (mailError) {
+        console.error('Error sending password reset:', mailError);
+        emailSent = false;
+      }
+    }
+    res.status(200).json({ account: toAdminAccount(data), setupUrl, emailSent });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
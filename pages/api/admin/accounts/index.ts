@@ -0,0 +1,80 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  ADMIN_ACCOUNT_COLUMNS, AdminAccountRow, createSetupToken, requireAdmin, sendSetupLink, setupLinkUrl, toAdminAccount,
+} from '../../../../lib/adminAuth';
+import { USERNAME_PATTERN, isAdminRole } from '../../../../lib/adminRoles';
+import { recordAudit } from '../../../../lib/auditLog';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Lists admin accounts and invites new ones. Owners only.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'owner');
+  if (!session) return;
+
+  if (req.method === 'GET') {
+    const { data, error } = await supabaseAdmin
+      .from('admin_accounts')
+      .select(ADMIN_ACCOUNT_COLUMNS)
+      .order('created_at', { ascending: true })
+      .returns<AdminAccountRow[]>();
+
+    if (error) {
+      console.error('Error fetching admin accounts:', error);
+      return res.status(500).json({ message: 'Failed to fetch accounts' });
+    }
+    res.status(200).json({ accounts: data.map(toAdminAccount) });
+  } else if (req.method === 'POST') {
+    const username = typeof req.body?.username === 'string' ? req.body.username.trim().toLowerCase() : '';
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim() : '';
+    const role = req.body?.role;
+    if (!USERNAME_PATTERN.test(username)) {
+      return res.status(400).json({ message: 'Usernames are 3 to 32 lowercase letters, digits, dots, dashes or underscores.' });
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ message: 'Enter a valid email address.' });
+    }
+    if (!isAdminRole(role)) {
+      return res.status(400).json({ message: 'Choose a role.' });
+    }
+
+    const setup = createSetupToken();
+    const { data, error } = await supabaseAdmin
+      .from('admin_accounts')
+      .insert({
+        username,
+        email,
+        role,
+        setup_token_hash: setup.hash,
+        setup_token_expires_at: setup.expiresAt,
+        invited_by: session.username,
+      })
+      .select(ADMIN_ACCOUNT_COLUMNS)
+      .single<AdminAccountRow>();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ message: 'That username is taken.' });
+      }
+      console.error('Error creating admin account:', error);
+      return res.status(500).json({ message: 'Failed to create account' });
+    }
+    await recordAudit(session.username, { action: 'invite', targetType: 'admin', targetId: data.id, after: { username, email, role } });
+
+    // The link is also shown to the owner, who can pass it on by hand if
+    // the email doesn't arrive.
+    const setupUrl = setupLinkUrl(setup.token);
+    let emailSent = true;
+    try {
+      await sendSetupLink(data, setupUrl, 'invite');
+    } catch (mailError) {
+      console.error('Error sending invitation:', mailError);
+      emailSent = false;
+    }
+    res.status(201).json({ account: toAdminAccount(data), setupUrl, emailSent });
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
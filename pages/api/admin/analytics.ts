@@ -0,0 +1,77 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { fetchAnalytics } from '../../../lib/analytics';
+import { ANALYTICS_REPORTS, analyticsPeriod, parseAnalyticsQuery } from '../../../lib/analyticsQuery';
+import type { AnalyticsReport } from '../../../lib/analyticsQuery';
+import { toCsv } from '../../../lib/csv';
+import { first } from '../../../lib/feedQuery';
+
+// How many artworks and artists the page ranks; downloads rank more.
+const TOP_LIMIT = 10;
+const CSV_TOP_LIMIT = 500;
+
+type Analytics = Awaited<ReturnType<typeof fetchAnalytics>>;
+
+function reportCsv(report: AnalyticsReport, analytics: Analytics): string {
+  switch (report) {
+    case 'activity':
+      return toCsv(
+        ['bucket', 'submissions', 'votes', 'average_rating'],
+        analytics.activity.map(point => [point.bucket, point.submissions, point.votes, point.average_rating]),
+      );
+    case 'top_images':
+      return toCsv(
+        ['id', 'title', 'artist', 'media_type', 'votes', 'average_rating'],
+        analytics.topImages.map(image => [image.id, image.title, image.artist_name, image.media_type, image.votes, image.average_rating]),
+      );
+    case 'top_artists':
+      return toCsv(
+        ['artist', 'slug', 'submissions', 'votes', 'average_rating'],
+        analytics.topArtists.map(artist => [artist.artist_name, artist.artist_slug, artist.submissions, artist.votes, artist.average_rating]),
+      );
+    case 'media_types':
+      return toCsv(['media_type', 'submissions'], analytics.mediaTypes.map(type => [type.media_type, type.submissions]));
+    case 'challenges':
+      return toCsv(
+        ['id', 'title', 'starts_at', 'ends_at', 'entries', 'artists', 'votes'],
+        analytics.challenges.map(c => [c.id, c.title, c.starts_at, c.ends_at, c.entries, c.artists, c.votes]),
+      );
+  }
+}
+
+// Gallery statistics for the period in parseAnalyticsQuery. `format=csv`
+// with a `report` from ANALYTICS_REPORTS downloads that table instead.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(await requireAdmin(req, res))) return;
+
+  if (req.method === 'GET') {
+    const analyticsQuery = parseAnalyticsQuery(req.query);
+    const { from, to } = analyticsPeriod(analyticsQuery);
+    if (from > to) {
+      return res.status(400).json({ message: 'The start date must not be after the end date' });
+    }
+
+    const csv = req.query.format === 'csv';
+    const report = first(req.query.report);
+    if (csv && !(report && report in ANALYTICS_REPORTS)) {
+      return res.status(400).json({ message: 'Unknown report' });
+    }
+
+    try {
+      const analytics = await fetchAnalytics(from, to, analyticsQuery.bucket, csv ? CSV_TOP_LIMIT : TOP_LIMIT);
+      if (!csv) {
+        return res.status(200).json({ from, to, bucket: analyticsQuery.bucket, ...analytics });
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${report}-${from}-to-${to}.csv"`);
+      res.status(200).send(reportCsv(report as AnalyticsReport, analytics));
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      res.status(500).json({ message: 'Failed to fetch analytics' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { recordAudit } from '../../../../lib/auditLog';
+import { parseId } from '../../../../lib/request';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+// Deleting a challenge keeps its entries in the gallery; they just lose the
+// link to it (and any badge).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'moderator');
+  if (!session) return;
+
+  const id = parseId(req.query.id);
+  if (!id) {
+    return res.status(400).json({ message: 'Invalid challenge id' });
+  }
+
+  if (req.method === 'DELETE') {
+    const { error: entriesError } = await supabaseAdmin
+      .from('images')
+      .update({ challenge_id: null, challenge_rank: null })
+      .eq('challenge_id', id);
+    if (entriesError) {
+      console.error('Error detaching challenge entries:', entriesError);
+      return res.status(500).json({ message: 'Failed to delete challenge' });
+    }
+
+    const { data, error } = await supabaseAdmin.from('challenges').delete().eq('id', id).select('*').maybeSingle();
+    if (error) {
+      console.error('Error deleting challenge:', error);
+      return res.status(500).json({ message: 'Failed to delete challenge' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Challenge not found' });
+    }
+    await recordAudit(session.username, { action: 'delete', targetType: 'challenge', targetId: id, before: data });
+    res.status(204).end();
+  } else {
+    res.setHeader('Allow', ['DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { recordAudit } from '../../../../lib/auditLog';
+import { CHALLENGE_COLUMNS } from '../../../../lib/challenges';
+import type { Challenge } from '../../../../lib/challenges';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, req.method === 'GET' ? 'viewer' : 'moderator');
+  if (!session) return;
+
+  if (req.method === 'GET') {
+    const { data, error } = await supabaseAdmin
+      .from('challenges')
+      .select(`${CHALLENGE_COLUMNS}, images(count)`)
+      .order('starts_at', { ascending: false })
+      .returns<(Challenge & { images: { count: number }[] })[]>();
+
+    if (error) {
+      console.error('Error fetching challenges:', error);
+      return res.status(500).json({ message: 'Failed to fetch challenges' });
+    }
+    const challenges = data.map(({ images, ...challenge }) => ({ ...challenge, entry_count: images[0]?.count ?? 0 }));
+    res.status(200).json({ challenges });
+  } else if (req.method === 'POST') {
+    const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+    const description = typeof req.body?.description === 'string' ? req.body.description.trim() : '';
+    const startsAt = parseDate(req.body?.startsAt);
+    const endsAt = parseDate(req.body?.endsAt);
+    if (!title) {
+      return res.status(400).json({ message: 'Theme is required' });
+    }
+    if (!startsAt || !endsAt) {
+      return res.status(400).json({ message: 'Start and end dates are required' });
+    }
+    if (endsAt <= startsAt) {
+      return res.status(400).json({ message: 'The challenge must end after it starts' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('challenges')
+      .insert({ title, description, starts_at: startsAt, ends_at: endsAt, created_by: session.username })
+      .select(CHALLENGE_COLUMNS)
+      .single<Challenge>();
+
+    if (error) {
+      console.error('Error creating challenge:', error);
+      return res.status(500).json({ message: 'Failed to create challenge' });
+    }
+    await recordAudit(session.username, { action: 'create', targetType: 'challenge', targetId: data.id, after: { ...data } });
+    res.status(201).json(data);
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
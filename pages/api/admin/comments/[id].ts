@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { auditFields, recordAudit } from '../../../../lib/auditLog';
+import { parseId } from '../../../../lib/request';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'moderator');
+  if (!session) return;
+
+  const id = parseId(req.query.id);
+  if (!id) {
+    return res.status(400).json({ message: 'Invalid comment id' });
+  }
+
+  if (req.method === 'PATCH') {
+    if (typeof req.body?.hidden !== 'boolean') {
+      return res.status(400).json({ message: 'hidden must be a boolean' });
+    }
+
+    const { data: before, error: lookupError } = await supabaseAdmin
+      .from('comments')
+      .select('hidden')
+      .eq('id', id)
+      .maybeSingle();
+    if (lookupError) {
+      console.error('Error looking up comment:', lookupError);
+      return res.status(500).json({ message: 'Failed to update comment' });
+    }
+    if (!before) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('comments')
+      .update({ hidden: req.body.hidden })
+      .eq('id', id)
+      .select('*, images(title)')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating comment:', error);
+      return res.status(500).json({ message: 'Failed to update comment' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    await recordAudit(session.username, {
+      action: data.hidden ? 'hide' : 'unhide',
+      targetType: 'comment',
+      targetId: id,
+      before,
+      after: { hidden: data.hidden },
+    });
+    res.status(200).json(data);
+  } else if (req.method === 'DELETE') {
+    // Replies go with it (on delete cascade).
+    const { data, error } = await supabaseAdmin.from('comments').delete().eq('id', id).select('*').maybeSingle();
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      return res.status(500).json({ message: 'Failed to delete comment' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    await recordAudit(session.username, {
+      action: 'delete',
+      targetType: 'comment',
+      targetId: id,
+      before: auditFields(data, ['image_id', 'parent_id', 'author_name', 'body', 'hidden', 'created_at']),
+    });
+    res.status(204).end();
+  } else {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+// Every comment, including hidden ones, newest first with the title of the
+// artwork it is on.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(await requireAdmin(req, res))) return;
+
+  if (req.method === 'GET') {
+    const { data, error } = await supabaseAdmin
+      .from('comments')
+      .select('*, images(title)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching comments:', error);
+      return res.status(500).json({ message: 'Failed to fetch comments' });
+    }
+    res.status(200).json({ comments: data });
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
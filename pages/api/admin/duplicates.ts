@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { NEAR_DUPLICATE_DISTANCE } from '../../../lib/perceptualHash';
+import { supabaseAdmin } from '../../../lib/supabaseAdmin';
+
+interface DuplicatePair {
+  image_id: number;
+  other_id: number;
+  distance: number;
+}
+
+// Groups entries that are near-duplicates of each other, directly or
+// through a chain of similar entries, as lists of image ids.
+function clusterPairs(pairs: DuplicatePair[]): number[][] {
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  for (const { image_id, other_id } of pairs) {
+    parent.set(find(image_id), find(other_id));
+  }
+
+  const ids = new Set(pairs.flatMap(pair => [pair.image_id, pair.other_id]));
+  const clusters = new Map<number, number[]>();
+  for (const id of Array.from(ids)) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) ?? []), id]);
+  }
+  return Array.from(clusters.values()).map(ids => ids.sort((a, b) => a - b));
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(await requireAdmin(req, res))) return;
+
+  if (req.method === 'GET') {
+    const { data, error } = await supabaseAdmin.rpc('image_duplicate_pairs', { p_max_distance: NEAR_DUPLICATE_DISTANCE });
+
+    if (error) {
+      console.error('Error finding duplicates:', error);
+      return res.status(500).json({ message: 'Failed to find duplicates' });
+    }
+    res.status(200).json({ clusters: clusterPairs(data as DuplicatePair[]) });
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
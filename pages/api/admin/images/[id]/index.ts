@@ -0,0 +1,135 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../../lib/adminAuth';
+import { AuditRecord, IMAGE_AUDIT_FIELDS, auditFields, recordAudit } from '../../../../../lib/auditLog';
+import { resolveOpenReports } from '../../../../../lib/reportQueries';
+import { parseId } from '../../../../../lib/request';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+import { removeStoredFiles } from '../../../../../lib/upload';
+
+const EDITABLE_FIELDS = ['title', 'description', 'artist_name'] as const;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'moderator');
+  if (!session) return;
+
+  const id = parseId(req.query.id);
+  if (!id) {
+    return res.status(400).json({ message: 'Invalid image id' });
+  }
+
+  if (req.method === 'PATCH') {
+    const updates: Record<string, string | boolean | null> = {};
+    if (req.body?.hidden !== undefined) {
+      if (typeof req.body.hidden !== 'boolean') {
+        return res.status(400).json({ message: 'hidden must be a boolean' });
+      }
+      updates.hidden = req.body.hidden;
+      // From now on the visibility is the admin's choice, not the reports'.
+      updates.auto_hidden_at = null;
+    }
+    for (const field of EDITABLE_FIELDS) {
+      if (req.body?.[field] === undefined) continue;
+      const value = req.body[field];
+      if (typeof value !== 'string' || !value.trim()) {
+        return res.status(400).json({ message: `${field} must be a non-empty string` });
+      }
+      updates[field] = value.trim();
+    }
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ message: 'Nothing to update' });
+    }
+
+    const { data: before, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (lookupError) {
+      console.error('Error looking up image:', lookupError);
+      return res.status(500).json({ message: 'Failed to update image' });
+    }
+    if (!before) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    // Showing an entry dismisses its open reports, or the next report
+    // would hide it again straight away.
+    let dismissed = 0;
+    if (updates.hidden === false) {
+      try {
+        dismissed = (await resolveOpenReports([id], session.username)).get(id) ?? 0;
+      } catch (resolveError) {
+        console.error('Error resolving reports:', resolveError);
+        return res.status(500).json({ message: 'Failed to update image' });
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('images')
+      .update(updates)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating image:', error);
+      return res.status(500).json({ message: 'Failed to update image' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    const records: AuditRecord[] = [];
+    if (updates.hidden !== undefined) {
+      const fields = ['hidden', 'auto_hidden_at'] as const;
+      records.push({
+        action: updates.hidden ? 'hide' : 'unhide',
+        targetType: 'image',
+        targetId: id,
+        before: auditFields(before, fields),
+        after: auditFields(data, fields),
+      });
+    }
+    if (dismissed > 0) {
+      records.push({ action: 'dismiss_reports', targetType: 'image', targetId: id, before: { open_reports: dismissed }, after: { open_reports: 0 } });
+    }
+    const edited = EDITABLE_FIELDS.filter(field => updates[field] !== undefined);
+    if (edited.length > 0) {
+      records.push({ action: 'edit', targetType: 'image', targetId: id, before: auditFields(before, edited), after: auditFields(data, edited) });
+    }
+    await recordAudit(session.username, records);
+    res.status(200).json(data);
+  } else if (req.method === 'DELETE') {
+    const { data: image, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('Error looking up image:', lookupError);
+      return res.status(500).json({ message: 'Failed to delete image' });
+    }
+    if (!image) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    const { error } = await supabaseAdmin.from('images').delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting image:', error);
+      return res.status(500).json({ message: 'Failed to delete image' });
+    }
+    // After the row is gone, so a failure leaves unused files rather than an
+    // entry without media.
+    try {
+      await removeStoredFiles(image);
+    } catch (storageError) {
+      console.error('Error deleting stored files:', storageError);
+    }
+    await recordAudit(session.username, { action: 'delete', targetType: 'image', targetId: id, before: auditFields(image, IMAGE_AUDIT_FIELDS) });
+    res.status(204).end();
+  } else {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../../lib/adminAuth';
+import { auditFields, recordAudit } from '../../../../../lib/auditLog';
+import { parseId } from '../../../../../lib/request';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+
+// Records an approve/reject decision together with who made it and when.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'moderator');
+  if (!session) return;
+
+  if (req.method === 'POST') {
+    const id = parseId(req.query.id);
+    if (!id) {
+      return res.status(400).json({ message: 'Invalid image id' });
+    }
+
+    const { decision, reason } = req.body ?? {};
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(400).json({ message: 'decision must be "approve" or "reject"' });
+    }
+    if (decision === 'reject' && (typeof reason !== 'string' || !reason.trim())) {
+      return res.status(400).json({ message: 'A rejection reason is required' });
+    }
+
+    const { data: before, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('status, rejection_reason, moderated_at, moderated_by')
+      .eq('id', id)
+      .maybeSingle();
+    if (lookupError) {
+      console.error('Error looking up image:', lookupError);
+      return res.status(500).json({ message: 'Failed to save decision' });
+    }
+    if (!before) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('images')
+      .update({
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        rejection_reason: decision === 'reject' ? reason.trim() : null,
+        moderated_at: new Date().toISOString(),
+        moderated_by: session.username,
+      })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error moderating image:', error);
+      return res.status(500).json({ message: 'Failed to save decision' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+    await recordAudit(session.username, {
+      action: decision,
+      targetType: 'image',
+      targetId: id,
+      before,
+      after: auditFields(data, ['status', 'rejection_reason', 'moderated_at', 'moderated_by']),
+    });
+    res.status(200).json(data);
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
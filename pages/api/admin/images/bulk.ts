@@ -0,0 +1,112 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { MAX_ADMIN_PAGE_SIZE } from '../../../../lib/adminImageQuery';
+import { IMAGE_AUDIT_FIELDS, auditFields, recordAudit } from '../../../../lib/auditLog';
+import { resolveOpenReports } from '../../../../lib/reportQueries';
+import { parseId } from '../../../../lib/request';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import { removeStoredFiles } from '../../../../lib/upload';
+
+const ACTIONS = ['hide', 'unhide', 'delete'] as const;
+
+// Hides, shows or deletes the selected entries of the admin table at once.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'moderator');
+  if (!session) return;
+
+  if (req.method === 'POST') {
+    const action = ACTIONS.find(value => value === req.body?.action);
+    const rawIds: unknown[] = Array.isArray(req.body?.ids) ? req.body.ids : [];
+    const ids = rawIds.map(parseId).filter((id): id is number => id !== null);
+    if (!action) {
+      return res.status(400).json({ message: `action must be one of: ${ACTIONS.join(', ')}` });
+    }
+    if (ids.length === 0 || ids.length !== rawIds.length || ids.length > MAX_ADMIN_PAGE_SIZE) {
+      return res.status(400).json({ message: `ids must list 1 to ${MAX_ADMIN_PAGE_SIZE} image ids` });
+    }
+
+    if (action !== 'delete') {
+      const { data: before, error: lookupError } = await supabaseAdmin
+        .from('images')
+        .select('id, hidden, auto_hidden_at')
+        .in('id', ids);
+      if (lookupError) {
+        console.error('Error looking up images:', lookupError);
+        return res.status(500).json({ message: 'Failed to update images' });
+      }
+
+      // As with a single switch, showing entries dismisses their open reports.
+      let dismissed = new Map<number, number>();
+      if (action === 'unhide') {
+        try {
+          dismissed = await resolveOpenReports(ids, session.username);
+        } catch (resolveError) {
+          console.error('Error resolving reports:', resolveError);
+          return res.status(500).json({ message: 'Failed to update images' });
+        }
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('images')
+        // As with a single switch, the admin's choice overrides the reports'.
+        .update({ hidden: action === 'hide', auto_hidden_at: null })
+        .in('id', ids)
+        .select('*');
+
+      if (error) {
+        console.error('Error updating images:', error);
+        return res.status(500).json({ message: 'Failed to update images' });
+      }
+      await recordAudit(session.username, [
+        ...before.map(image => ({
+          action,
+          targetType: 'image' as const,
+          targetId: image.id,
+          before: { hidden: image.hidden, auto_hidden_at: image.auto_hidden_at },
+          after: { hidden: action === 'hide', auto_hidden_at: null },
+        })),
+        ...Array.from(dismissed, ([imageId, count]) => ({
+          action: 'dismiss_reports' as const,
+          targetType: 'image' as const,
+          targetId: imageId,
+          before: { open_reports: count },
+          after: { open_reports: 0 },
+        })),
+      ]);
+      return res.status(200).json({ images: data });
+    }
+
+    const { data: images, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('*')
+      .in('id', ids);
+    if (lookupError) {
+      console.error('Error looking up images:', lookupError);
+      return res.status(500).json({ message: 'Failed to delete images' });
+    }
+
+    const { error } = await supabaseAdmin.from('images').delete().in('id', images.map(image => image.id));
+    if (error) {
+      console.error('Error deleting images:', error);
+      return res.status(500).json({ message: 'Failed to delete images' });
+    }
+    // Files go after the rows, and only those no remaining entry uses.
+    for (const image of images) {
+      try {
+        await removeStoredFiles(image);
+      } catch (storageError) {
+        console.error('Error deleting stored files:', storageError);
+      }
+    }
+    await recordAudit(session.username, images.map(image => ({
+      action: 'delete' as const,
+      targetType: 'image' as const,
+      targetId: image.id,
+      before: auditFields(image, IMAGE_AUDIT_FIELDS),
+    })));
+    res.status(200).json({ deleted: images.map(image => image.id) });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { parseAdminImageQuery } from '../../../../lib/adminImageQuery';
+import { fetchAdminImages } from '../../../../lib/adminImages';
+
+// Entries including hidden and unmoderated ones, with the submitter's email
+// and the rating histogram, one page at a time; see parseAdminImageQuery
+// for the filters.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(await requireAdmin(req, res))) return;
+
+  if (req.method === 'GET') {
+    try {
+      res.status(200).json(await fetchAdminImages(parseAdminImageQuery(req.query)));
+    } catch (error) {
+      console.error('Error fetching admin images:', error);
+      res.status(500).json({ message: 'Failed to fetch images' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
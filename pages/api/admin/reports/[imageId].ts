@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { auditFields, recordAudit } from '../../../../lib/auditLog';
+import { resolveOpenReports } from '../../../../lib/reportQueries';
+import { parseId } from '../../../../lib/request';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+// Reviews the open reports on an entry. "dismiss" closes them and shows
+// the entry again if reports had hidden it; "uphold" closes them and keeps
+// it hidden as an admin decision.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res, 'moderator');
+  if (!session) return;
+
+  const imageId = parseId(req.query.imageId);
+  if (!imageId) {
+    return res.status(400).json({ message: 'Invalid image id' });
+  }
+
+  if (req.method === 'POST') {
+    const { action } = req.body ?? {};
+    if (action !== 'dismiss' && action !== 'uphold') {
+      return res.status(400).json({ message: 'action must be "dismiss" or "uphold"' });
+    }
+
+    const { data: image, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('*')
+      .eq('id', imageId)
+      .maybeSingle();
+    if (lookupError) {
+      console.error('Error looking up image:', lookupError);
+      return res.status(500).json({ message: 'Failed to review reports' });
+    }
+    if (!image) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    let resolved: Map<number, number>;
+    try {
+      resolved = await resolveOpenReports([imageId], session.username);
+    } catch (resolveError) {
+      console.error('Error resolving reports:', resolveError);
+      return res.status(500).json({ message: 'Failed to review reports' });
+    }
+
+    const updates = action === 'uphold'
+      ? { hidden: true, auto_hidden_at: null }
+      : image.auto_hidden_at ? { hidden: false, auto_hidden_at: null } : {};
+    let updated = image;
+    if (Object.keys(updates).length > 0) {
+      const { data, error } = await supabaseAdmin.from('images').update(updates).eq('id', imageId).select('*').single();
+      if (error) {
+        console.error('Error updating image:', error);
+        return res.status(500).json({ message: 'Failed to review reports' });
+      }
+      updated = data;
+    }
+    await recordAudit(session.username, {
+      action: action === 'uphold' ? 'uphold_reports' : 'dismiss_reports',
+      targetType: 'image',
+      targetId: imageId,
+      before: { ...auditFields(image, ['hidden', 'auto_hidden_at']), open_reports: resolved.get(imageId) ?? 0 },
+      after: auditFields(updated, ['hidden', 'auto_hidden_at']),
+    });
+    res.status(200).json(updated);
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
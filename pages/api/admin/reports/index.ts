@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/adminAuth';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+
+// Entries with open reports, most reported first, plus the individual
+// reports with any details the reporters gave.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(await requireAdmin(req, res))) return;
+
+  if (req.method === 'GET') {
+    const [summaries, reports] = await Promise.all([
+      supabaseAdmin
+        .from('image_report_summary')
+        .select('*')
+        .order('report_count', { ascending: false })
+        .order('last_reported_at', { ascending: false }),
+      supabaseAdmin
+        .from('reports')
+        .select('id, image_id, reason, details, created_at')
+        .is('resolved_at', null)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (summaries.error || reports.error) {
+      console.error('Error fetching reports:', summaries.error ?? reports.error);
+      return res.status(500).json({ message: 'Failed to fetch reports' });
+    }
+    res.status(200).json({ summaries: summaries.data, reports: reports.data });
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
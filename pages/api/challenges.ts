@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { CHALLENGE_COLUMNS } from '../../lib/challenges';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+
+// Challenges currently accepting entries, for the upload form.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('challenges')
+      .select(CHALLENGE_COLUMNS)
+      .lte('starts_at', now)
+      .gt('ends_at', now)
+      .order('ends_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching challenges:', error);
+      return res.status(500).json({ message: 'Failed to fetch challenges' });
+    }
+    res.status(200).json({ challenges: data });
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
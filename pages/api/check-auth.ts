@@ -1,16 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../lib/adminAuth';
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'GET') {
-    const { admin_session } = req.cookies;
+    const session = await requireAdmin(req, res);
+    if (!session) return;
 
-    if (admin_session === 'true') {
-      res.status(200).json({ authenticated: true });
-    } else {
-      res.status(401).json({ authenticated: false });
-    }
+    res.status(200).json({ authenticated: true, username: session.username, role: session.role });
   } else {
     res.setHeader('Allow', ['GET']);
     res.status(405).end(`Method ${req.method} Not Allowed`);
   }
-}
\ No newline at end of file
+}
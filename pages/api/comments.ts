@@ -0,0 +1,120 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { MAX_COMMENT_LENGTH, MAX_COMMENT_NAME_LENGTH, PUBLIC_COMMENT_COLUMNS, checkCommentText } from '../../lib/comments';
+import { createRateLimiter } from '../../lib/rateLimit';
+import { getClientIp, parseId } from '../../lib/request';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { getOrCreateVoterId } from '../../lib/voter';
+
+// Five comments per address every ten minutes.
+const commentLimiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+async function isPublicImage(imageId: number) {
+  const { data, error } = await supabaseAdmin.from('image_feed').select('id').eq('id', imageId).maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const imageId = parseId(req.query.imageId);
+    if (!imageId) {
+      return res.status(400).json({ message: 'Invalid image id' });
+    }
+
+    // Hidden, pending and unconfirmed entries keep their comments private.
+    try {
+      if (!await isPublicImage(imageId)) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+    } catch (error) {
+      console.error('Error looking up image:', error);
+      return res.status(500).json({ message: 'Failed to fetch comments' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('comments')
+      .select(PUBLIC_COMMENT_COLUMNS)
+      .eq('image_id', imageId)
+      .eq('hidden', false)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching comments:', error);
+      return res.status(500).json({ message: 'Failed to fetch comments' });
+    }
+    res.status(200).json({ comments: data });
+  } else if (req.method === 'POST') {
+    const ip = getClientIp(req);
+    const retryAfter = commentLimiter.retryAfter(ip);
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ message: 'You are commenting too fast. Try again in a few minutes.' });
+    }
+
+    const imageId = parseId(req.body?.imageId);
+    const parentId = req.body?.parentId == null ? null : parseId(req.body.parentId);
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    const body = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
+    if (!imageId || (req.body?.parentId != null && !parentId)) {
+      return res.status(400).json({ message: 'Invalid image or reply id' });
+    }
+    if (!name || name.length > MAX_COMMENT_NAME_LENGTH) {
+      return res.status(400).json({ message: `Name must be 1 to ${MAX_COMMENT_NAME_LENGTH} characters.` });
+    }
+    if (!body || body.length > MAX_COMMENT_LENGTH) {
+      return res.status(400).json({ message: `Comments must be 1 to ${MAX_COMMENT_LENGTH} characters.` });
+    }
+    const rejection = checkCommentText(name) ?? checkCommentText(body);
+    if (rejection) {
+      return res.status(400).json({ message: rejection });
+    }
+
+    try {
+      if (!await isPublicImage(imageId)) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+    } catch (error) {
+      console.error('Error looking up image:', error);
+      return res.status(500).json({ message: 'Failed to post comment' });
+    }
+
+    if (parentId) {
+      const { data: parent, error: parentError } = await supabaseAdmin
+        .from('comments')
+        .select('id')
+        .eq('id', parentId)
+        .eq('image_id', imageId)
+        .eq('hidden', false)
+        .maybeSingle();
+      if (parentError) {
+        console.error('Error looking up parent comment:', parentError);
+        return res.status(500).json({ message: 'Failed to post comment' });
+      }
+      if (!parent) {
+        return res.status(404).json({ message: 'The comment you replied to no longer exists' });
+      }
+    }
+
+    commentLimiter.hit(ip);
+    const { data, error } = await supabaseAdmin
+      .from('comments')
+      .insert({
+        image_id: imageId,
+        parent_id: parentId,
+        author_name: name,
+        body,
+        voter_id: getOrCreateVoterId(req, res),
+      })
+      .select(PUBLIC_COMMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error posting comment:', error);
+      return res.status(500).json({ message: 'Failed to post comment' });
+    }
+    res.status(201).json(data);
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
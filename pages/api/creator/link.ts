@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { sendMagicLink } from '../../../lib/creatorAuth';
+import { createRateLimiter } from '../../../lib/rateLimit';
+import { getClientIp } from '../../../lib/request';
+import { supabaseAdmin } from '../../../lib/supabaseAdmin';
+
+// Five link requests per address and three per email every hour.
+const ipLimiter = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+const emailLimiter = createRateLimiter({ limit: 3, windowMs: 60 * 60 * 1000 });
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ message: 'Enter a valid email address.' });
+    }
+
+    const retryAfter = Math.max(ipLimiter.hit(getClientIp(req)), emailLimiter.hit(email));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ message: 'Too many link requests. Please try again later.' });
+    }
+
+    // Only addresses with entries get mail, and the response is the same
+    // either way so it doesn't reveal who has submitted.
+    const { count, error } = await supabaseAdmin
+      .from('images')
+      .select('id', { count: 'exact', head: true })
+      .eq('artist', email);
+    if (error) {
+      console.error('Error looking up submissions:', error);
+      return res.status(500).json({ message: 'Failed to send link' });
+    }
+    if (count) {
+      try {
+        await sendMagicLink(email, 'manage');
+      } catch (mailError) {
+        console.error('Error sending magic link:', mailError);
+        return res.status(500).json({ message: 'Failed to send link' });
+      }
+    }
+    res.status(202).json({ message: 'If that address has submissions, a link is on its way.' });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
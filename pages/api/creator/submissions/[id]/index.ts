@@ -0,0 +1,85 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireCreator } from '../../../../../lib/creatorAuth';
+import { parseId } from '../../../../../lib/request';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+import { CREATOR_IMAGE_COLUMNS } from '../../../../../lib/types';
+import { removeStoredFiles } from '../../../../../lib/upload';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const email = requireCreator(req, res);
+  if (!email) return;
+
+  const id = parseId(req.query.id);
+  if (!id) {
+    return res.status(400).json({ message: 'Invalid submission id' });
+  }
+
+  if (req.method === 'PATCH') {
+    const updates: Record<string, string> = {};
+    const title = req.body?.title;
+    const description = req.body?.description;
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim()) return res.status(400).json({ message: 'Title is required.' });
+      if (title.trim().length > 200) return res.status(400).json({ message: 'Title must be 200 characters or fewer.' });
+      updates.title = title.trim();
+    }
+    if (description !== undefined) {
+      if (typeof description !== 'string' || !description.trim()) return res.status(400).json({ message: 'Prompt is required.' });
+      updates.description = description.trim();
+    }
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ message: 'Nothing to update' });
+    }
+    // With pre-moderation on, edited entries go back to the queue.
+    if (process.env.PREMODERATION === 'true') updates.status = 'pending';
+
+    const { data, error } = await supabaseAdmin
+      .from('images')
+      .update(updates)
+      .eq('id', id)
+      .eq('artist', email)
+      .select(CREATOR_IMAGE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating submission:', error);
+      return res.status(500).json({ message: 'Failed to update submission' });
+    }
+    if (!data) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+    res.status(200).json(data);
+  } else if (req.method === 'DELETE') {
+    const { data: image, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('id, file_path, poster_path, variants')
+      .eq('id', id)
+      .eq('artist', email)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('Error looking up submission:', lookupError);
+      return res.status(500).json({ message: 'Failed to delete submission' });
+    }
+    if (!image) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+
+    const { error } = await supabaseAdmin.from('images').delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting submission:', error);
+      return res.status(500).json({ message: 'Failed to delete submission' });
+    }
+    // After the row is gone, so a failure leaves unused files rather than an
+    // entry without media.
+    try {
+      await removeStoredFiles(image);
+    } catch (storageError) {
+      console.error('Error deleting stored files:', storageError);
+    }
+    res.status(204).end();
+  } else {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,157 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireCreator } from '../../../../../lib/creatorAuth';
+import { SUPPORTED_EMBED_HOSTS, fetchEmbedThumbnail, parseEmbedLink } from '../../../../../lib/embeds';
+import { parseMultipart } from '../../../../../lib/multipart';
+import { parseId } from '../../../../../lib/request';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+import { CREATOR_IMAGE_COLUMNS } from '../../../../../lib/types';
+import {
+  MAX_VIDEO_BYTES, UploadValidationError, prepareUpload, removeStoredFiles, storePreparedUpload, uploadColumns,
+} from '../../../../../lib/upload';
+
+// The body is multipart/form-data, read by parseMultipart.
+export const config = { api: { bodyParser: false } };
+
+// Replaces an entry's media with a new file or video link. Ratings given to
+// the old media are cleared, since they no longer describe the entry.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const email = requireCreator(req, res);
+  if (!email) return;
+
+  const id = parseId(req.query.id);
+  if (!id) {
+    return res.status(400).json({ message: 'Invalid submission id' });
+  }
+
+  if (req.method === 'PUT') {
+    const { data: image, error: lookupError } = await supabaseAdmin
+      .from('images')
+      .select('id, file_path, poster_path, variants, challenge_rank')
+      .eq('id', id)
+      .eq('artist', email)
+      .maybeSingle();
+    if (lookupError) {
+      console.error('Error looking up submission:', lookupError);
+      return res.status(500).json({ message: 'Failed to replace media' });
+    }
+    if (!image) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+    if (image.challenge_rank !== null) {
+      return res.status(409).json({ message: 'Challenge winners can no longer be changed.' });
+    }
+
+    let form;
+    try {
+      form = await parseMultipart(req, { maxFileSize: MAX_VIDEO_BYTES });
+    } catch (error) {
+      console.error('Error parsing media replacement:', error);
+      return res.status(400).json({ message: 'The upload could not be read.' });
+    }
+
+    const youtubeLink = form.fields.youtubeLink?.trim() ?? '';
+    const file = form.file && form.file.buffer.length > 0 ? form.file : null;
+    if (!file === !youtubeLink) {
+      return res.status(400).json({ message: 'Provide either a file or a video link.' });
+    }
+
+    let media;
+    if (file) {
+      let upload;
+      try {
+        upload = await prepareUpload(file);
+      } catch (error) {
+        if (!(error instanceof UploadValidationError)) throw error;
+        return res.status(400).json({ message: error.message });
+      }
+
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('images')
+        .select('id')
+        .eq('file_path', upload.path)
+        .neq('status', 'rejected')
+        .neq('id', id)
+        .limit(1);
+      if (existingError) {
+        console.error('Error checking for duplicates:', existingError);
+        return res.status(500).json({ message: 'Failed to replace media' });
+      }
+      if (existing.length > 0) {
+        return res.status(409).json({ message: 'This exact file is already in the gallery.' });
+      }
+
+      try {
+        await storePreparedUpload(upload);
+      } catch (storageError) {
+        console.error('Error storing upload:', storageError);
+        return res.status(500).json({ message: 'Failed to store the file' });
+      }
+      media = {
+        ...uploadColumns(upload),
+        youtube_link: null,
+        embed_provider: null,
+        embed_id: null,
+        embed_start_seconds: null,
+        embed_thumbnail_url: null,
+      };
+    } else {
+      const embed = parseEmbedLink(youtubeLink);
+      if (!embed) {
+        return res.status(400).json({ message: `Unsupported link. Paste a ${SUPPORTED_EMBED_HOSTS} video URL.` });
+      }
+      media = {
+        media_type: 'embed',
+        file_path: '',
+        poster_path: null,
+        duration_seconds: null,
+        width: null,
+        height: null,
+        variants: [],
+        blur_data_url: null,
+        perceptual_hash: null,
+        youtube_link: youtubeLink,
+        embed_provider: embed.provider,
+        embed_id: embed.id,
+        embed_start_seconds: embed.startSeconds,
+        embed_thumbnail_url: await fetchEmbedThumbnail(embed, youtubeLink),
+      };
+    }
+
+    const { error: votesError } = await supabaseAdmin.from('votes').delete().eq('image_id', id);
+    if (votesError) {
+      console.error('Error clearing ratings:', votesError);
+      return res.status(500).json({ message: 'Failed to replace media' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('images')
+      .update({
+        ...media,
+        stars: 0,
+        num_votes: 0,
+        legacy_votes: 0,
+        // With pre-moderation on, the new media goes back to the queue.
+        ...(process.env.PREMODERATION === 'true' ? { status: 'pending' } : {}),
+      })
+      .eq('id', id)
+      .select(CREATOR_IMAGE_COLUMNS)
+      .single();
+    if (error) {
+      console.error('Error replacing media:', error);
+      return res.status(500).json({ message: 'Failed to replace media' });
+    }
+
+    if (image.file_path && image.file_path !== media.file_path) {
+      try {
+        await removeStoredFiles(image);
+      } catch (storageError) {
+        // The entry already shows the new media; the old files are only clutter.
+        console.error('Error deleting replaced file:', storageError);
+      }
+    }
+    res.status(200).json(data);
+  } else {
+    res.setHeader('Allow', ['PUT']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
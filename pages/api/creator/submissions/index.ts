@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireCreator } from '../../../../lib/creatorAuth';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import { CREATOR_IMAGE_COLUMNS } from '../../../../lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const email = requireCreator(req, res);
+  if (!email) return;
+
+  if (req.method === 'GET') {
+    // Opening the emailed link is what confirms the address, so it
+    // publishes every entry still waiting on it.
+    const { error: verifyError } = await supabaseAdmin
+      .from('images')
+      .update({ email_verified_at: new Date().toISOString() })
+      .eq('artist', email)
+      .is('email_verified_at', null);
+    if (verifyError) {
+      console.error('Error verifying submissions:', verifyError);
+      return res.status(500).json({ message: 'Failed to fetch submissions' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('images')
+      .select(CREATOR_IMAGE_COLUMNS)
+      .eq('artist', email)
+      .order('created_at', { ascending: false });
+    if (error) {
+      console.error('Error fetching submissions:', error);
+      return res.status(500).json({ message: 'Failed to fetch submissions' });
+    }
+    res.status(200).json({ email, submissions: data });
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { decodeCursor, fetchFeedPage } from '../../lib/feed';
+import { parseFeedQuery } from '../../lib/feedQuery';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const cursorParam = Array.isArray(req.query.cursor) ? req.query.cursor[0] : req.query.cursor;
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    try {
+      res.status(200).json(await fetchFeedPage(parseFeedQuery(req.query), cursor));
+    } catch (error) {
+      console.error('Error fetching feed:', error);
+      res.status(500).json({ message: 'Failed to fetch images' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
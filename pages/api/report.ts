@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createRateLimiter } from '../../lib/rateLimit';
+import { isReportReason, reportAutoHideThreshold } from '../../lib/reports';
+import { getClientIp, parseId } from '../../lib/request';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { getOrCreateVoterId, getVoterFingerprint } from '../../lib/voter';
+
+// Ten reports per address every hour.
+const reportLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 });
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    const retryAfter = reportLimiter.hit(getClientIp(req));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ message: 'You are sending reports too fast. Try again later.' });
+    }
+
+    const imageId = parseId(req.body?.imageId);
+    const reason = req.body?.reason;
+    const details = typeof req.body?.details === 'string' ? req.body.details.trim() : '';
+    if (!imageId) {
+      return res.status(400).json({ message: 'Invalid image id' });
+    }
+    if (!isReportReason(reason)) {
+      return res.status(400).json({ message: 'Please choose a reason' });
+    }
+    if (details.length > 500) {
+      return res.status(400).json({ message: 'Details must be 500 characters or fewer' });
+    }
+
+    const { data: image, error: imageError } = await supabaseAdmin
+      .from('image_feed')
+      .select('id')
+      .eq('id', imageId)
+      .maybeSingle();
+    if (imageError) {
+      console.error('Error looking up image:', imageError);
+      return res.status(500).json({ message: 'Failed to send report' });
+    }
+    if (!image) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .rpc('report_image', {
+        p_image_id: imageId,
+        p_voter_id: getOrCreateVoterId(req, res),
+        p_fingerprint: getVoterFingerprint(req),
+        p_reason: reason,
+        p_details: details,
+        p_threshold: reportAutoHideThreshold(),
+      })
+      .single<{ created: boolean; hidden: boolean }>();
+
+    if (error || !data) {
+      console.error('Error recording report:', error);
+      return res.status(500).json({ message: 'Failed to send report' });
+    }
+    // A repeat report is not an error; the visitor just can't add weight.
+    res.status(data.created ? 201 : 200).json({ imageId, alreadyReported: !data.created, hidden: data.hidden });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { searchFeedPage } from '../../lib/feed';
+import { parseFeedQuery } from '../../lib/feedQuery';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const feedQuery = parseFeedQuery(req.query);
+    if (!feedQuery.q) {
+      return res.status(400).json({ message: 'Missing search query' });
+    }
+    const cursorParam = Array.isArray(req.query.cursor) ? req.query.cursor[0] : req.query.cursor;
+    const offset = cursorParam ? Number(cursorParam) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    try {
+      res.status(200).json(await searchFeedPage({ ...feedQuery, q: feedQuery.q }, offset));
+    } catch (error) {
+      console.error('Error searching images:', error);
+      res.status(500).json({ message: 'Search failed' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
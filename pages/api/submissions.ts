@@ -0,0 +1,222 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { resolveArtistSlug } from '../../lib/artists';
+import { challengePhase } from '../../lib/challenges';
+import { fetchChallenge } from '../../lib/challengeQueries';
+import { sendMagicLink } from '../../lib/creatorAuth';
+import { SUPPORTED_EMBED_HOSTS, fetchEmbedThumbnail, parseEmbedLink } from '../../lib/embeds';
+import { parseMultipart } from '../../lib/multipart';
+import { NEAR_DUPLICATE_DISTANCE } from '../../lib/perceptualHash';
+import { GENERATORS, MAX_TAGS, isAspectRatio, isGenerator, parseMidjourneyParams, parseSeed, parseTags } from '../../lib/promptMetadata';
+import { createRateLimiter } from '../../lib/rateLimit';
+import { getClientIp, parseId } from '../../lib/request';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { PUBLIC_IMAGE_COLUMNS } from '../../lib/types';
+import type { AdminImage, PublicImage } from '../../lib/types';
+import { MAX_VIDEO_BYTES, PreparedUpload, UploadValidationError, prepareUpload, storePreparedUpload, uploadColumns } from '../../lib/upload';
+
+// The body is multipart/form-data, read by parseMultipart.
+export const config = { api: { bodyParser: false } };
+
+type FieldErrors = Partial<Record<'file' | 'youtubeLink' | 'title' | 'description' | 'artist' | 'artistName' | 'challengeId'
+  | 'model' | 'modelVersion' | 'aspectRatio' | 'seed' | 'negativePrompt' | 'tags', string>>;
+
+// Five submissions per address and three per email every hour.
+const ipLimiter = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+const emailLimiter = createRateLimiter({ limit: 3, windowMs: 60 * 60 * 1000 });
+// One link confirms all of an address's entries, so a submitter sending
+// several in a row gets a single verification email.
+const verifyLinkLimiter = createRateLimiter({ limit: 1, windowMs: 15 * 60 * 1000 });
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isPremoderated() {
+  return process.env.PREMODERATION === 'true';
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    let form;
+    try {
+      // Allow the largest limit here; prepareUpload applies the per-kind one.
+      form = await parseMultipart(req, { maxFileSize: MAX_VIDEO_BYTES });
+    } catch (error) {
+      console.error('Error parsing submission:', error);
+      return res.status(400).json({ message: 'The submission could not be read.' });
+    }
+
+    const { fields, file } = form;
+    const title = fields.title?.trim() ?? '';
+    const description = fields.description?.trim() ?? '';
+    const artist = fields.artist?.trim().toLowerCase() ?? '';
+    const artistName = fields.artistName?.trim() ?? '';
+    const youtubeLink = fields.youtubeLink?.trim() ?? '';
+    const hasFile = !!file && file.buffer.length > 0;
+    const challengeId = fields.challengeId ? parseId(fields.challengeId) : null;
+    // Details left blank are filled from Midjourney-style flags in the prompt.
+    const promptParams = parseMidjourneyParams(description);
+    const model = fields.model?.trim() || promptParams.model || '';
+    const modelVersion = fields.modelVersion?.trim() || promptParams.modelVersion || '';
+    const aspectRatio = fields.aspectRatio?.trim() || promptParams.aspectRatio || '';
+    const seedInput = fields.seed?.trim() ?? '';
+    const seed = seedInput ? parseSeed(seedInput) : promptParams.seed ?? null;
+    const negativePrompt = fields.negativePrompt?.trim() || promptParams.negativePrompt || '';
+    const tags = parseTags(fields.tags ?? '');
+
+    const errors: FieldErrors = {};
+    if (!title) errors.title = 'Title is required.';
+    else if (title.length > 200) errors.title = 'Title must be 200 characters or fewer.';
+    if (!description) errors.description = 'Prompt is required.';
+    if (!artist) errors.artist = 'Email is required.';
+    else if (!EMAIL_PATTERN.test(artist)) errors.artist = 'Enter a valid email address.';
+    if (!artistName) errors.artistName = 'Artist name is required.';
+    if (!hasFile && !youtubeLink) errors.file = 'Please provide either a file or a video link.';
+    if (hasFile && youtubeLink) errors.youtubeLink = 'Provide either a file or a video link, not both.';
+
+    const embed = youtubeLink ? parseEmbedLink(youtubeLink) : null;
+    if (youtubeLink && !embed) {
+      errors.youtubeLink = `Unsupported link. Paste a ${SUPPORTED_EMBED_HOSTS} video URL.`;
+    }
+
+    if (model && !isGenerator(model)) errors.model = `Choose one of: ${Object.values(GENERATORS).join(', ')}.`;
+    if (modelVersion.length > 50) errors.modelVersion = 'Version must be 50 characters or fewer.';
+    if (aspectRatio && !isAspectRatio(aspectRatio)) errors.aspectRatio = 'Use width:height, e.g. 16:9.';
+    if (seedInput && seed === null) errors.seed = 'Seed must be a whole number from 0 to 18446744073709551615.';
+    if (negativePrompt.length > 2000) errors.negativePrompt = 'Negative prompt must be 2000 characters or fewer.';
+    if (tags.length > MAX_TAGS) errors.tags = `Use at most ${MAX_TAGS} tags.`;
+    if (fields.challengeId) {
+      const challenge = challengeId ? await fetchChallenge(challengeId) : null;
+      if (!challenge) errors.challengeId = 'That challenge does not exist.';
+      else if (challengePhase(challenge) !== 'open') errors.challengeId = 'That challenge is not open for entries.';
+    }
+
+    let upload: PreparedUpload | null = null;
+    if (hasFile && !errors.youtubeLink) {
+      try {
+        upload = await prepareUpload(file);
+      } catch (error) {
+        if (!(error instanceof UploadValidationError)) throw error;
+        errors.file = error.message;
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({ message: 'Please fix the highlighted fields.', errors });
+    }
+
+    const retryAfter = Math.max(ipLimiter.hit(getClientIp(req)), emailLimiter.hit(artist));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ message: 'Too many submissions. Please try again later.' });
+    }
+
+    if (upload) {
+      // Same content hash means the same file; rejected entries may be retried.
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('images')
+        .select('id')
+        .eq('file_path', upload.path)
+        .neq('status', 'rejected')
+        .limit(1);
+      if (existingError) {
+        console.error('Error checking for duplicates:', existingError);
+        return res.status(500).json({ message: 'Failed to save submission' });
+      }
+      if (existing.length > 0) {
+        return res.status(409).json({
+          message: 'This file has already been submitted.',
+          errors: { file: 'This exact file is already in the gallery.' },
+        });
+      }
+
+      // Near-duplicates only warn: the submitter can confirm and send again.
+      if (fields.allowSimilar !== 'true') {
+        const { data: similar, error: similarError } = await supabaseAdmin.rpc('find_similar_images', {
+          p_hash: upload.perceptualHash,
+          p_max_distance: NEAR_DUPLICATE_DISTANCE,
+        });
+        if (similarError) {
+          console.error('Error checking for duplicates:', similarError);
+          return res.status(500).json({ message: 'Failed to save submission' });
+        }
+        if (similar.length > 0) {
+          return res.status(409).json({
+            message: 'This looks very similar to something already in the gallery.',
+            errors: { file: 'Check the similar entries below, then submit anyway if this is a different piece.' },
+            similar,
+          });
+        }
+      }
+
+      try {
+        await storePreparedUpload(upload);
+      } catch (storageError) {
+        console.error('Error storing upload:', storageError);
+        return res.status(500).json({ message: 'Failed to store the file' });
+      }
+    }
+
+    const embedThumbnailUrl = embed ? await fetchEmbedThumbnail(embed, youtubeLink) : null;
+
+    const artistSlug = await resolveArtistSlug(artist, artistName);
+
+    const { data, error } = await supabaseAdmin.from('images').insert({
+      title,
+      description,
+      artist,
+      artist_name: artistName,
+      artist_slug: artistSlug,
+      ...(upload ? uploadColumns(upload) : {
+        media_type: 'embed',
+        file_path: '',
+        poster_path: null,
+        duration_seconds: null,
+        width: null,
+        height: null,
+        variants: [],
+        blur_data_url: null,
+        perceptual_hash: null,
+      }),
+      youtube_link: youtubeLink || null,
+      embed_provider: embed?.provider ?? null,
+      embed_id: embed?.id ?? null,
+      embed_start_seconds: embed?.startSeconds ?? null,
+      embed_thumbnail_url: embedThumbnailUrl,
+      challenge_id: challengeId,
+      model: model || null,
+      model_version: modelVersion || null,
+      aspect_ratio: aspectRatio || null,
+      seed,
+      negative_prompt: negativePrompt || null,
+      tags,
+      stars: 0,
+      num_votes: 0,
+      hidden: false,
+      status: isPremoderated() ? 'pending' : 'approved',
+      // Stays unpublished until the submitter follows the emailed link.
+      email_verified_at: null,
+    }).select(`${PUBLIC_IMAGE_COLUMNS}, status`).single<PublicImage & Pick<AdminImage, 'status'>>();
+
+    if (error) {
+      console.error('Error inserting submission:', error);
+      return res.status(500).json({ message: 'Failed to save submission' });
+    }
+
+    // The entry is saved either way; a new link can be requested from the
+    // "my submissions" page if this one never arrives.
+    let emailSent = true;
+    if (verifyLinkLimiter.retryAfter(artist) === 0) {
+      verifyLinkLimiter.hit(artist);
+      try {
+        await sendMagicLink(artist, 'verify');
+      } catch (mailError) {
+        console.error('Error sending verification email:', mailError);
+        verifyLinkLimiter.reset(artist);
+        emailSent = false;
+      }
+    }
+    res.status(201).json({ ...data, emailSent });
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
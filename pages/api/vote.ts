@@ -0,0 +1,87 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { challengePhase } from '../../lib/challenges';
+import { createRateLimiter } from '../../lib/rateLimit';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { getClientIp, parseId } from '../../lib/request';
+import { getOrCreateVoterId, getVoterFingerprint } from '../../lib/voter';
+
+// Sixty ratings per address every ten minutes. Ratings are deduplicated by
+// voter session, so this is what keeps one address from stuffing votes.
+const ratingLimiter = createRateLimiter({ limit: 60, windowMs: 10 * 60 * 1000 });
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    // The ratings this voter has already given, keyed by image id, so the
+    // gallery can show them without trusting local storage.
+    const voterId = getOrCreateVoterId(req, res);
+    const { data, error } = await supabaseAdmin
+      .from('votes')
+      .select('image_id, rating')
+      .eq('voter_id', voterId)
+      // Clicks from before star ratings carry no rating to show.
+      .not('rating', 'is', null);
+
+    if (error) {
+      console.error('Error fetching votes:', error);
+      return res.status(500).json({ message: 'Failed to fetch votes' });
+    }
+    res.status(200).json({ ratings: Object.fromEntries(data.map(vote => [vote.image_id, vote.rating])) });
+  } else if (req.method === 'POST') {
+    const retryAfter = ratingLimiter.hit(getClientIp(req));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ message: 'You are rating too fast. Try again later.' });
+    }
+
+    const imageId = parseId(req.body?.imageId);
+    const rating = Number(req.body?.rating);
+    if (!imageId) {
+      return res.status(400).json({ message: 'Invalid image id' });
+    }
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return res.status(400).json({ message: 'Rating must be a whole number from 1 to 5' });
+    }
+
+    const { data: image, error: imageError } = await supabaseAdmin
+      .from('images')
+      .select('id, challenges(starts_at, ends_at)')
+      .eq('id', imageId)
+      .eq('hidden', false)
+      .eq('status', 'approved')
+      .not('email_verified_at', 'is', null)
+      .maybeSingle();
+    if (imageError) {
+      console.error('Error looking up image:', imageError);
+      return res.status(500).json({ message: 'Failed to record rating' });
+    }
+    if (!image) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+    // Challenge entries can only be rated until the deadline, so the
+    // announced winners stay final.
+    const challenge = Array.isArray(image.challenges) ? image.challenges[0] : image.challenges;
+    if (challenge && challengePhase(challenge) === 'closed') {
+      return res.status(403).json({ message: 'Voting for this challenge has closed' });
+    }
+
+    const voterId = getOrCreateVoterId(req, res);
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_image', {
+        p_image_id: imageId,
+        p_voter_id: voterId,
+        p_fingerprint: getVoterFingerprint(req),
+        p_rating: rating,
+      })
+      .single<{ stars: number; num_votes: number; rating: number }>();
+
+    if (error || !data) {
+      console.error('Error recording rating:', error);
+      return res.status(500).json({ message: 'Failed to record rating' });
+    }
+
+    res.status(200).json({ imageId, stars: data.stars, num_votes: data.num_votes, rating: data.rating });
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
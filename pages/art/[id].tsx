@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import ChallengeBadge from '../../components/ChallengeBadge';
+import Comments from '../../components/Comments';
+import MediaView from '../../components/MediaView';
+import ReportButton from '../../components/ReportButton';
+import ShareButton from '../../components/ShareButton';
+import StarRating from '../../components/StarRating';
+import { Challenge, challengePhase } from '../../lib/challenges';
+import { fetchChallenge, finalizeEndedChallenges } from '../../lib/challengeQueries';
+import { embedFromRecord } from '../../lib/embeds';
+import { GENERATORS } from '../../lib/promptMetadata';
+import { formatAverage } from '../../lib/ratings';
+import { parseId } from '../../lib/request';
+import { absoluteUrl } from '../../lib/siteUrl';
+import { previewImagePath, publicFileUrl } from '../../lib/storage';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { PUBLIC_IMAGE_COLUMNS, PublicImage } from '../../lib/types';
+import { fetchUserRatings, submitRating } from '../../lib/votes';
+
+interface ArtworkPageProps {
+  image: PublicImage;
+  challenge: Challenge | null;
+  votingOpen: boolean;
+  pageUrl: string;
+  previewImageUrl: string | null;
+}
+
+const ArtworkPage: React.FC<ArtworkPageProps> = ({ image: initialImage, challenge, votingOpen, pageUrl, previewImageUrl }) => {
+  const [image, setImage] = useState(initialImage);
+  const [userRating, setUserRating] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUserRatings()
+      .then(ratings => setUserRating(ratings[initialImage.id]))
+      .catch(error => console.error('Error fetching user ratings:', error));
+  }, [initialImage.id]);
+
+  const handleRate = async (rating: number) => {
+    try {
+      const result = await submitRating(image.id, rating);
+      setImage(prev => ({ ...prev, stars: result.stars, num_votes: result.num_votes }));
+      setUserRating(result.rating);
+      setError(null);
+    } catch (error) {
+      console.error('Error updating rating:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update rating. Please try again.');
+    }
+  };
+
+  const description = image.description.length > 200 ? `${image.description.slice(0, 197)}…` : image.description;
+  const isVideo = image.media_type === 'video' || image.media_type === 'embed';
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Head>
+        <title>{`${image.title} by ${image.artist_name} – /Imagine AI Gallery`}</title>
+        <meta name="description" content={description} />
+        <meta property="og:site_name" content="/Imagine AI Gallery" />
+        <meta property="og:type" content={isVideo ? 'video.other' : 'article'} />
+        <meta property="og:title" content={`${image.title} by ${image.artist_name}`} />
+        <meta property="og:description" content={description} />
+        <meta property="og:url" content={pageUrl} />
+        {previewImageUrl && <meta property="og:image" content={previewImageUrl} />}
+        {previewImageUrl && <meta property="og:image:alt" content={image.title} />}
+        <meta name="twitter:card" content={previewImageUrl ? 'summary_large_image' : 'summary'} />
+        <meta name="twitter:title" content={`${image.title} by ${image.artist_name}`} />
+        <meta name="twitter:description" content={description} />
+        {previewImageUrl && <meta name="twitter:image" content={previewImageUrl} />}
+      </Head>
+
+      <Link href="/" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+        <ArrowLeft className="mr-1 h-4 w-4" /> Back to Gallery
+      </Link>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex justify-between items-start">
+            <span className="text-2xl">{image.title}</span>
+            <span className="flex">
+              <ReportButton imageId={image.id} align="right" />
+              <ShareButton path={`/art/${image.id}`} title={image.title} />
+            </span>
+          </CardTitle>
+          <p className="text-gray-600">
+            by <Link href={`/artist/${image.artist_slug}`} className="hover:underline">{image.artist_name}</Link>
+            {' · '}{new Date(image.created_at).toLocaleDateString()}
+          </p>
+          {challenge && (
+            <p className="flex items-center space-x-2 text-gray-600">
+              <span>
+                Entry in <Link href={`/challenges/${challenge.id}`} className="hover:underline">{challenge.title}</Link>
+              </span>
+              {image.challenge_rank && <ChallengeBadge challengeId={challenge.id} rank={image.challenge_rank} />}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <MediaView
+            item={image}
+            className={isVideo ? 'aspect-video' : 'max-h-[75vh]'}
+            sizes="(min-width: 1024px) 1024px, 100vw"
+            imageFit="contain"
+            eager
+          />
+          <div className="flex items-center space-x-3">
+            <StarRating value={userRating} onRate={handleRate} disabled={!votingOpen} />
+            <span className="text-gray-600">
+              {formatAverage(image.stars, image.num_votes)} average from {image.num_votes} rating{image.num_votes === 1 ? '' : 's'}
+            </span>
+          </div>
+          <div>
+            <h2 className="font-semibold mb-1">Prompt</h2>
+            <p className="whitespace-pre-wrap text-gray-800">{image.description}</p>
+          </div>
+          {image.negative_prompt && (
+            <div>
+              <h2 className="font-semibold mb-1">Negative prompt</h2>
+              <p className="whitespace-pre-wrap text-gray-800">{image.negative_prompt}</p>
+            </div>
+          )}
+          {(image.model || image.aspect_ratio || image.seed !== null) && (
+            <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {image.model && (
+                <div>
+                  <dt className="text-sm text-gray-500">Model</dt>
+                  <dd>
+                    <Link href={`/?model=${image.model}`} className="hover:underline">
+                      {GENERATORS[image.model]}{image.model_version ? ` ${image.model_version}` : ''}
+                    </Link>
+                  </dd>
+                </div>
+              )}
+              {image.aspect_ratio && (
+                <div>
+                  <dt className="text-sm text-gray-500">Aspect ratio</dt>
+                  <dd>{image.aspect_ratio}</dd>
+                </div>
+              )}
+              {image.seed !== null && (
+                <div>
+                  <dt className="text-sm text-gray-500">Seed</dt>
+                  <dd className="font-mono">{image.seed}</dd>
+                </div>
+              )}
+            </dl>
+          )}
+          {image.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {image.tags.map(tag => (
+                <Link
+                  key={tag}
+                  href={`/?tag=${encodeURIComponent(tag)}`}
+                  className="rounded-full bg-gray-100 px-3 py-1 text-sm text-gray-700 hover:bg-gray-200"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="mt-8">
+        <Comments imageId={image.id} />
+      </div>
+    </div>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<ArtworkPageProps> = async ({ params, req }) => {
+  const id = parseId(params?.id);
+  if (!id) return { notFound: true };
+
+  await finalizeEndedChallenges();
+  const { data: image, error } = await supabaseAdmin
+    .from('image_feed')
+    .select(PUBLIC_IMAGE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle<PublicImage>();
+
+  if (error) throw error;
+  if (!image) return { notFound: true };
+
+  const challenge = image.challenge_id ? await fetchChallenge(image.challenge_id) : null;
+
+  const previewPath = previewImagePath(image);
+  const previewImageUrl = previewPath ? publicFileUrl(previewPath) : embedFromRecord(image)?.thumbnailUrl ?? null;
+
+  return {
+    props: {
+      image,
+      challenge,
+      votingOpen: !challenge || challengePhase(challenge) !== 'closed',
+      pageUrl: absoluteUrl(req, `/art/${id}`),
+      previewImageUrl,
+    },
+  };
+};
+
+export default ArtworkPage;
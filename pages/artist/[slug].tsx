@@ -0,0 +1,101 @@
+import React from 'react';
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft, Star } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import MediaView from '../../components/MediaView';
+import { formatAverage } from '../../lib/ratings';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { PUBLIC_IMAGE_COLUMNS, PublicImage } from '../../lib/types';
+
+interface ArtistPageProps {
+  artistName: string;
+  images: PublicImage[];
+  totals: {
+    pieces: number;
+    votes: number;
+    stars: number; // sum of all ratings across the pieces
+  };
+}
+
+const GRID_IMAGE_SIZES = '(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
+
+const ArtistPage: React.FC<ArtistPageProps> = ({ artistName, images, totals }) => (
+  <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+    <Head>
+      <title>{`${artistName} – /Imagine AI Gallery`}</title>
+      <meta property="og:title" content={`${artistName} on the /Imagine AI Gallery`} />
+      <meta property="og:description" content={`${totals.pieces} pieces by ${artistName}`} />
+    </Head>
+
+    <Link href="/" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+      <ArrowLeft className="mr-1 h-4 w-4" /> Back to Gallery
+    </Link>
+
+    <h1 className="text-3xl font-bold text-gray-900">{artistName}</h1>
+    <dl className="flex space-x-8 mt-4 mb-8 text-gray-700">
+      <div>
+        <dt className="text-sm text-gray-500">Pieces</dt>
+        <dd className="text-xl font-semibold">{totals.pieces}</dd>
+      </div>
+      <div>
+        <dt className="text-sm text-gray-500">Votes</dt>
+        <dd className="text-xl font-semibold">{totals.votes}</dd>
+      </div>
+      <div>
+        <dt className="text-sm text-gray-500">Average rating</dt>
+        <dd className="text-xl font-semibold">{formatAverage(totals.stars, totals.votes)}</dd>
+      </div>
+    </dl>
+
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      {images.map(image => (
+        <Card key={image.id} className="flex flex-col">
+          <CardHeader>
+            <CardTitle className="text-lg">
+              <Link href={`/art/${image.id}`} className="hover:underline">{image.title}</Link>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-grow space-y-3">
+            <MediaView item={image} className="h-48" sizes={GRID_IMAGE_SIZES} />
+            <p className="flex items-center text-sm text-gray-600">
+              <Star className="mr-1 h-4 w-4 text-yellow-500 fill-current" />
+              {formatAverage(image.stars, image.num_votes)} ({image.num_votes})
+              <span className="ml-auto">{new Date(image.created_at).toLocaleDateString()}</span>
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  </div>
+);
+
+export const getServerSideProps: GetServerSideProps<ArtistPageProps> = async ({ params }) => {
+  const slug = typeof params?.slug === 'string' ? params.slug : null;
+  if (!slug) return { notFound: true };
+
+  const { data: images, error } = await supabaseAdmin
+    .from('image_feed')
+    .select(PUBLIC_IMAGE_COLUMNS)
+    .eq('artist_slug', slug)
+    .order('created_at', { ascending: false })
+    .returns<PublicImage[]>();
+
+  if (error) throw error;
+  if (images.length === 0) return { notFound: true };
+
+  return {
+    props: {
+      artistName: images[0].artist_name,
+      images,
+      totals: {
+        pieces: images.length,
+        votes: images.reduce((sum, image) => sum + image.num_votes, 0),
+        stars: images.reduce((sum, image) => sum + image.stars, 0),
+      },
+    },
+  };
+};
+
+export default ArtistPage;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "../../components/ui/card";
+import ChallengeBadge from '../../components/ChallengeBadge';
+import MediaView from '../../components/MediaView';
+import StarRating from '../../components/StarRating';
+import { Challenge, ChallengePhase, challengePhase } from '../../lib/challenges';
+import { fetchChallenge, finalizeEndedChallenges } from '../../lib/challengeQueries';
+import { formatAverage } from '../../lib/ratings';
+import { parseId } from '../../lib/request';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+import { PUBLIC_IMAGE_COLUMNS, PublicImage } from '../../lib/types';
+import { fetchUserRatings, submitRating } from '../../lib/votes';
+
+interface ChallengePageProps {
+  challenge: Challenge;
+  phase: ChallengePhase;
+  entries: PublicImage[];
+}
+
+const GRID_IMAGE_SIZES = '(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw';
+
+const ChallengePage: React.FC<ChallengePageProps> = ({ challenge, phase, entries: initialEntries }) => {
+  const [entries, setEntries] = useState(initialEntries);
+  const [userRatings, setUserRatings] = useState<{ [key: number]: number }>({});
+  const [error, setError] = useState<string | null>(null);
+  const votingOpen = phase === 'open';
+  const winners = entries.filter(entry => entry.challenge_rank !== null);
+
+  useEffect(() => {
+    fetchUserRatings()
+      .then(setUserRatings)
+      .catch(error => console.error('Error fetching user ratings:', error));
+  }, []);
+
+  const handleRate = async (id: number, rating: number) => {
+    if (userRatings[id] === rating) return;
+    try {
+      const result = await submitRating(id, rating);
+      setEntries(prev => prev.map(entry =>
+        entry.id === id ? { ...entry, stars: result.stars, num_votes: result.num_votes } : entry
+      ));
+      setUserRatings(prev => ({ ...prev, [id]: result.rating }));
+      setError(null);
+    } catch (error) {
+      console.error('Error updating rating:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update rating. Please try again.');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Head>
+        <title>{`${challenge.title} – /Imagine AI Gallery challenge`}</title>
+        <meta property="og:title" content={`Challenge: ${challenge.title}`} />
+        {challenge.description && <meta property="og:description" content={challenge.description} />}
+      </Head>
+
+      <Link href="/challenges" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+        <ArrowLeft className="mr-1 h-4 w-4" /> All challenges
+      </Link>
+
+      <h1 className="text-3xl font-bold text-gray-900">{challenge.title}</h1>
+      <p className="text-gray-600 mt-1">
+        {phase === 'upcoming' && <>Opens {new Date(challenge.starts_at).toLocaleString()}</>}
+        {phase === 'open' && <>Entries and voting close {new Date(challenge.ends_at).toLocaleString()}</>}
+        {phase === 'closed' && <>Closed {new Date(challenge.ends_at).toLocaleString()}</>}
+      </p>
+      {challenge.description && <p className="whitespace-pre-wrap text-gray-800 mt-4">{challenge.description}</p>}
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 my-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {winners.length > 0 && (
+        <section className="mt-8">
+          <h2 className="text-xl font-semibold mb-3">Winners</h2>
+          <ol className="space-y-1">
+            {winners.map(entry => (
+              <li key={entry.id} className="flex items-center space-x-2">
+                <ChallengeBadge challengeId={challenge.id} rank={entry.challenge_rank as number} />
+                <Link href={`/art/${entry.id}`} className="font-medium hover:underline">{entry.title}</Link>
+                <span className="text-gray-600">by {entry.artist_name}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <h2 className="text-xl font-semibold mt-8 mb-3">Entries ({entries.length})</h2>
+      {entries.length === 0 && <p className="text-gray-500">No entries yet.</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {entries.map(entry => (
+          <Card key={entry.id} className="flex flex-col">
+            <CardHeader>
+              <CardTitle className="text-lg">
+                <Link href={`/art/${entry.id}`} className="hover:underline">{entry.title}</Link>
+              </CardTitle>
+              <p className="text-sm text-gray-600">
+                by <Link href={`/artist/${entry.artist_slug}`} className="hover:underline">{entry.artist_name}</Link>
+              </p>
+            </CardHeader>
+            <CardContent className="flex-grow">
+              <MediaView item={entry} className="h-48" sizes={GRID_IMAGE_SIZES} />
+            </CardContent>
+            <CardFooter className="flex justify-between items-center">
+              {entry.challenge_rank ? <ChallengeBadge challengeId={challenge.id} rank={entry.challenge_rank} /> : <span />}
+              <div className="flex items-center space-x-2">
+                <StarRating
+                  value={userRatings[entry.id]}
+                  onRate={(rating) => handleRate(entry.id, rating)}
+                  disabled={!votingOpen}
+                />
+                <span className="text-sm text-gray-600">
+                  {formatAverage(entry.stars, entry.num_votes)} ({entry.num_votes})
+                </span>
+              </div>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<ChallengePageProps> = async ({ params }) => {
+  const id = parseId(params?.id);
+  if (!id) return { notFound: true };
+
+  await finalizeEndedChallenges();
+  const challenge = await fetchChallenge(id);
+  if (!challenge) return { notFound: true };
+
+  const phase = challengePhase(challenge);
+  // Once voting has closed, list entries as they finished.
+  let query = supabaseAdmin.from('image_feed').select(PUBLIC_IMAGE_COLUMNS).eq('challenge_id', id);
+  query = phase === 'closed'
+    ? query.order('challenge_rank', { ascending: true, nullsFirst: false }).order('avg_rating', { ascending: false })
+    : query.order('created_at', { ascending: false });
+  const { data: entries, error } = await query.returns<PublicImage[]>();
+
+  if (error) throw error;
+
+  return { props: { challenge, phase, entries } };
+};
+
+export default ChallengePage;
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import { CHALLENGE_COLUMNS, Challenge, ChallengePhase, challengePhase } from '../../lib/challenges';
+import { finalizeEndedChallenges } from '../../lib/challengeQueries';
+import { supabaseAdmin } from '../../lib/supabaseAdmin';
+
+interface ChallengesPageProps {
+  challenges: (Challenge & { phase: ChallengePhase })[];
+}
+
+const SECTIONS: { phase: ChallengePhase; heading: string }[] = [
+  { phase: 'open', heading: 'Open now' },
+  { phase: 'upcoming', heading: 'Coming up' },
+  { phase: 'closed', heading: 'Past challenges' },
+];
+
+const ChallengesPage: React.FC<ChallengesPageProps> = ({ challenges }) => (
+  <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+    <Head>
+      <title>Challenges – /Imagine AI Gallery</title>
+    </Head>
+
+    <Link href="/" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+      <ArrowLeft className="mr-1 h-4 w-4" /> Back to Gallery
+    </Link>
+
+    <h1 className="text-3xl font-bold text-gray-900 mb-6">Challenges</h1>
+    {challenges.length === 0 && <p className="text-gray-500">No challenges yet.</p>}
+    {SECTIONS.map(({ phase, heading }) => {
+      const inPhase = challenges.filter(challenge => challenge.phase === phase);
+      if (inPhase.length === 0) return null;
+      return (
+        <section key={phase} className="mb-8">
+          <h2 className="text-xl font-semibold mb-3">{heading}</h2>
+          <div className="space-y-4">
+            {inPhase.map(challenge => (
+              <Card key={challenge.id}>
+                <CardHeader>
+                  <CardTitle>
+                    <Link href={`/challenges/${challenge.id}`} className="hover:underline">{challenge.title}</Link>
+                  </CardTitle>
+                  <p className="text-sm text-gray-600">
+                    {new Date(challenge.starts_at).toLocaleDateString()} – {new Date(challenge.ends_at).toLocaleDateString()}
+                  </p>
+                </CardHeader>
+                {challenge.description && (
+                  <CardContent>
+                    <p className="text-gray-800 line-clamp-3">{challenge.description}</p>
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </div>
+        </section>
+      );
+    })}
+  </div>
+);
+
+export const getServerSideProps: GetServerSideProps<ChallengesPageProps> = async () => {
+  await finalizeEndedChallenges();
+
+  const { data, error } = await supabaseAdmin
+    .from('challenges')
+    .select(CHALLENGE_COLUMNS)
+    .order('starts_at', { ascending: false })
+    .returns<Challenge[]>();
+
+  if (error) throw error;
+
+  const now = Date.now();
+  return {
+    props: {
+      challenges: data.map(challenge => ({ ...challenge, phase: challengePhase(challenge, now) })),
+    },
+  };
+};
+
+export default ChallengesPage;
@@ -1,128 +1,263 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { supabase } from '../lib/supabaseClient';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/router';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "../components/ui/card";
 import { Input } from "../components/ui/input";
 import { Textarea } from "../components/ui/textarea";
 import { Button } from "../components/ui/button";
-import { Star, Plus, X, Bot, Github, InfoIcon } from 'lucide-react';
+import { Plus, X, Bot, FolderOpen, Github, InfoIcon, MessageCircle, Search, Trophy } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../components/ui/tooltip";
 import ReactDOM from 'react-dom';
+import StarRating from '../components/StarRating';
+import { formatAverage } from '../lib/ratings';
+import { SUPPORTED_EMBED_HOSTS, parseEmbedLink } from '../lib/embeds';
+import { PublicImage } from '../lib/types';
+import { SearchHighlights } from '../lib/search';
+import Highlight from '../components/Highlight';
+import { fetchUserRatings, submitRating } from '../lib/votes';
+import MediaView from '../components/MediaView';
+import ShareButton from '../components/ShareButton';
+import ReportButton from '../components/ReportButton';
+import ChallengeBadge from '../components/ChallengeBadge';
+import { Challenge } from '../lib/challenges';
+import Link from 'next/link';
+import { GENERATORS, Generator, parseMidjourneyParams } from '../lib/promptMetadata';
+import { readEmbeddedPrompt } from '../lib/pngMetadata';
+import { FEED_SORTS, FeedQuery, FeedSort, MEDIA_TYPE_LABELS, MediaTypeFilter, feedQueryToParams, parseFeedQuery } from '../lib/feedQuery';
 
-interface Image {
-  id: number;
-  title: string;
-  description: string;
-  artist: string;
-  artist_name: string;
-  file_path: string | null;
-  youtube_link: string | null;
-  stars: number;
-  num_votes: number;
-  created_at: string;
-}
+// Feed entries carry their comment count, search results also highlighted
+// copies of the matched fields. Fresh uploads have neither.
+type FeedImage = PublicImage & { comment_count?: number; highlights?: SearchHighlights };
+
+const ACCEPTED_UPLOAD_TYPES = 'image/jpeg,image/png,image/gif,image/webp,image/avif,video/mp4,video/quicktime,video/webm';
+
+const SELECT_CLASS_NAME = 'mt-1 block h-10 rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground';
+
+const GENERATION_FIELDS = ['model', 'modelVersion', 'aspectRatio', 'seed', 'negativePrompt', 'tags'];
+
+const EMPTY_FORM = {
+  title: '', description: '', artist: '', artistName: '', youtubeLink: '', challengeId: '',
+  model: '', modelVersion: '', aspectRatio: '', seed: '', negativePrompt: '', tags: '',
+};
+
+// Matches the gallery grid: one column on phones up to four on desktop.
+const GALLERY_IMAGE_SIZES = '(min-width: 1024px) 25vw, (min-width: 768px) 33vw, (min-width: 640px) 50vw, 100vw';
 
 const Home: React.FC = () => {
-  const [images, setImages] = useState<Image[]>([]);
+  const [images, setImages] = useState<FeedImage[]>([]);
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({ title: '', description: '', artist: '', artistName: '', youtubeLink: '' });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [openChallenges, setOpenChallenges] = useState<Challenge[]>([]);
   const [file, setFile] = useState<File | null>(null);
+  const [showGenerationDetails, setShowGenerationDetails] = useState(false);
+  const [similarEntries, setSimilarEntries] = useState<{ id: number; title: string }[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<{ [field: string]: string }>({});
   const [loading, setLoading] = useState(false);
   const [loadingSubmit, setLoadingSubmit] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [lastFetchedAt, setLastFetchedAt] = useState<string | null>(null);
-  const [userVotes, setUserVotes] = useState<{ [key: number]: boolean }>({});
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [userRatings, setUserRatings] = useState<{ [key: number]: number }>({});
 
-  const observer = useRef<IntersectionObserver | null>(null);
+  const router = useRouter();
+  const feedQuery = useMemo(() => parseFeedQuery(router.query), [router.query]);
+  const feedKey = JSON.stringify(feedQuery);
+  const [searchText, setSearchText] = useState('');
+  const pushedSearch = useRef<string | null>(null);
 
-  const lastImageElementRef = useCallback((node: HTMLElement | null) => {
-    if (loading) return;
-    if (observer.current) observer.current.disconnect();
-    observer.current = new IntersectionObserver(entries => {
-      if (entries[0].isIntersecting && hasMore) fetchImages();
-    });
-    if (node) observer.current.observe(node);
-  }, [loading, hasMore]);
+  const observer = useRef<IntersectionObserver | null>(null);
+  // Bumped whenever the feed is reset so responses for the previous sort or
+  // filters are dropped.
+  const feedGeneration = useRef(0);
 
-  const fetchImages = useCallback(async () => {
-    console.log("Fetching images... Last fetched at:", lastFetchedAt);
-    if (!hasMore || loading) return;
+  const fetchImages = useCallback(async (reset = false) => {
+    console.log("Fetching images... Cursor:", reset ? null : cursor);
+    if (!reset && (!hasMore || loading)) return;
+    const generation = reset ? ++feedGeneration.current : feedGeneration.current;
     setLoading(true);
     try {
-      let query = supabase.from('images').select('*').eq('hidden', false).order('created_at', { ascending: false }).limit(5);
-      if (lastFetchedAt) query = query.lt('created_at', lastFetchedAt);
-      const { data, error } = await query;
-      if (error) throw error;
-      if (data.length === 0) setHasMore(false);
-      else {
-        ReactDOM.flushSync(() => {
-          setImages(prev => [...prev, ...data]);
-        });
-        setLastFetchedAt(data[data.length - 1].created_at);
-        console.log("New images loaded:", data);
-      }
+      const params = new URLSearchParams(feedQueryToParams(feedQuery));
+      if (!reset && cursor) params.set('cursor', cursor);
+      const response = await fetch(`${feedQuery.q ? '/api/search' : '/api/images'}?${params}`);
+      if (!response.ok) throw new Error(`Feed request failed with status ${response.status}`);
+      const { images: data, nextCursor }: { images: FeedImage[]; nextCursor: string | null } = await response.json();
+      if (generation !== feedGeneration.current) return;
+
+      ReactDOM.flushSync(() => {
+        setImages(prev => reset ? data : [...prev, ...data]);
+      });
+      setCursor(nextCursor);
+      setHasMore(nextCursor !== null);
+      console.log("New images loaded:", data);
     } catch (error) {
       console.error('Error fetching images:', error);
       setError('Failed to fetch images. Please try again later.');
     } finally {
-      setLoading(false);
+      if (generation === feedGeneration.current) setLoading(false);
       console.log("Finished fetching images.");
     }
-  }, [hasMore, loading, lastFetchedAt]);
+  }, [hasMore, loading, cursor, feedQuery]);
+
+  const lastImageElementRef = useCallback((node: HTMLElement | null) => {
+    if (loading) return;
+    if (observer.current) observer.current.disconnect();
+    observer.current = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && hasMore) fetchImages();
+    });
+    if (node) observer.current.observe(node);
+  }, [loading, hasMore, fetchImages]);
 
   useEffect(() => {
-    console.log("Initial image load.");
-    fetchImages();
-    setUserVotes(JSON.parse(localStorage.getItem('userVotes') || '{}'));
+    if (!router.isReady) return;
+    console.log("Loading feed:", feedKey);
+    setHasMore(true);
+    setCursor(null);
+    fetchImages(true);
+    // Only a change of sort or filters should restart the feed.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, feedKey]);
+
+  useEffect(() => {
+    fetchUserRatings()
+      .then(setUserRatings)
+      .catch(error => console.error('Error fetching user ratings:', error));
   }, []);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  useEffect(() => {
+    if (!showForm) return;
+    fetch('/api/challenges')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Challenge lookup failed with status ${response.status}`)))
+      .then(({ challenges }) => setOpenChallenges(challenges))
+      .catch(error => console.error('Error fetching challenges:', error));
+  }, [showForm]);
+
+  const updateFeedQuery = useCallback((changes: Partial<FeedQuery>) => {
+    router.replace({ pathname: router.pathname, query: feedQueryToParams({ ...feedQuery, ...changes }) }, undefined, { shallow: true });
+  }, [router, feedQuery]);
+
+  // Keep the search box in sync with ?q= when it changes from outside the
+  // box (following a link, back button), but not while the user types.
+  useEffect(() => {
+    if (router.isReady && feedQuery.q !== pushedSearch.current) setSearchText(feedQuery.q ?? '');
+  }, [router.isReady, feedQuery.q]);
+
+  // Push typed searches to the URL once the user pauses.
+  useEffect(() => {
+    const q = searchText.trim() || null;
+    if (!router.isReady || q === feedQuery.q) return;
+    const timeout = setTimeout(() => {
+      pushedSearch.current = q;
+      updateFeedQuery({ q });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [router.isReady, searchText, feedQuery.q, updateFeedQuery]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Offers the Midjourney flags at the end of the prompt as generation
+  // details, without overwriting anything already filled in.
+  const handlePromptBlur = () => {
+    const params = parseMidjourneyParams(formData.description);
+    setFormData(prev => ({
+      ...prev,
+      model: prev.model || params.model || '',
+      modelVersion: prev.modelVersion || params.modelVersion || '',
+      aspectRatio: prev.aspectRatio || params.aspectRatio || '',
+      seed: prev.seed || (params.seed !== undefined && params.seed !== null ? String(params.seed) : ''),
+      negativePrompt: prev.negativePrompt || params.negativePrompt || '',
+    }));
+  };
+
+  // PNGs from Stable Diffusion tools carry their prompt and settings; copy
+  // them into any empty fields for the user to check before uploading.
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setSimilarEntries([]);
+    if (selected?.type !== 'image/png') return;
+    try {
+      const embedded = await readEmbeddedPrompt(selected);
+      if (!embedded) return;
+      setFormData(prev => ({
+        ...prev,
+        description: prev.description || embedded.prompt || '',
+        model: prev.model || embedded.model || '',
+        modelVersion: prev.modelVersion || embedded.modelVersion || '',
+        aspectRatio: prev.aspectRatio || embedded.aspectRatio || '',
+        seed: prev.seed || (embedded.seed !== undefined && embedded.seed !== null ? String(embedded.seed) : ''),
+        negativePrompt: prev.negativePrompt || embedded.negativePrompt || '',
+      }));
+      setShowGenerationDetails(true);
+      setNotice('We filled in the prompt and settings saved in this PNG. Please check them before uploading.');
+    } catch (error) {
+      console.error('Error reading PNG metadata:', error);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitForm(false);
+  };
+
+  // allowSimilar confirms a submission the server flagged as a likely
+  // near-duplicate.
+  const submitForm = async (allowSimilar: boolean) => {
     setError(null);
+    setNotice(null);
+    setFieldErrors({});
     setLoadingSubmit(true);
     console.log("Submitting form with data:", formData, "File:", file);
-    const { title, description, artist, artistName, youtubeLink } = formData;
+    const { title, description, artist, artistName, youtubeLink, challengeId, model, modelVersion, aspectRatio, seed, negativePrompt, tags } = formData;
     if ((!file && !youtubeLink) || !title || !description || !artist || !artistName) {
-      setError('All fields are required. Please provide either a file or a YouTube link.');
+      setError('All fields are required. Please provide either a file or a video link.');
       setLoadingSubmit(false);
       console.log("Form submission failed due to missing fields.");
       return;
     }
+    if (!file && !parseEmbedLink(youtubeLink)) {
+      setFieldErrors({ youtubeLink: `Unsupported link. Paste a ${SUPPORTED_EMBED_HOSTS} video URL.` });
+      setLoadingSubmit(false);
+      return;
+    }
     try {
-      let file_path: string | null = null;
-      if (file) {
-        const fileName = `${Math.random()}.${file.name.split('.').pop()}`;
-        console.log("Uploading file:", fileName);
-        const { data, error } = await supabase.storage.from('images').upload(fileName, file);
-        if (error) throw error;
-        file_path = data?.path || null;
-        console.log("File uploaded successfully:", data);
-      }
-      if (!file_path && youtubeLink) {
-        file_path = '';
+      const body = new FormData();
+      body.append('title', title);
+      body.append('description', description);
+      body.append('artist', artist);
+      body.append('artistName', artistName);
+      if (challengeId) body.append('challengeId', challengeId);
+      Object.entries({ model, modelVersion, aspectRatio, seed, negativePrompt, tags }).forEach(([name, value]) => {
+        if (value.trim()) body.append(name, value);
+      });
+      if (file) body.append('file', file);
+      else body.append('youtubeLink', youtubeLink);
+      if (allowSimilar) body.append('allowSimilar', 'true');
+      console.log("Submitting image data:", { title, description, artist, artistName, youtubeLink, file: file?.name });
+      const response = await fetch('/api/submissions', { method: 'POST', body });
+      const insertData = await response.json();
+      if ((response.status === 400 || response.status === 409) && insertData.errors) {
+        setFieldErrors(insertData.errors);
+        setSimilarEntries(insertData.similar ?? []);
+        if (Object.keys(insertData.errors).some(field => GENERATION_FIELDS.includes(field))) setShowGenerationDetails(true);
+        setError(insertData.message);
+        return;
       }
-      console.log("Inserting image data:", { title, description, artist, artist_name: artistName, file_path, youtube_link: youtubeLink || null });
-      const { data: insertData, error: insertError } = await supabase.from('images').insert({
-        title, description, artist, artist_name: artistName, file_path, youtube_link: youtubeLink || null,
-        stars: 0, num_votes: 0, hidden: false
-      }).select("*").single();
-      if (insertError) throw insertError;
+      if (!response.ok) throw new Error(insertData.message || `Submission failed with status ${response.status}`);
       console.log("Image inserted successfully:", insertData);
 
-      setFormData({ title: '', description: '', artist: '', artistName: '', youtubeLink: '' });
+      setFormData(EMPTY_FORM);
       setFile(null);
+      setSimilarEntries([]);
       setShowForm(false);
 
-      // Add the new image directly to the images state
-      ReactDOM.flushSync(() => {
-        setImages(prevImages => [insertData, ...prevImages]);
-      });
-
-      console.log("New image added to state:", insertData);
+      // New entries are published once the submitter confirms their email.
+      const confirmStep = insertData.emailSent
+        ? `We sent a confirmation link to ${artist}. Open it to publish your submission`
+        : 'We could not send the confirmation email. Request a new link from the My submissions page to publish your submission';
+      setNotice(insertData.status === 'approved'
+        ? `Thanks! ${confirmStep}.`
+        : `Thanks! ${confirmStep}; it will appear once a moderator has also approved it.`);
     } catch (error) {
       console.error('Error in handleSubmit:', error);
       setError('An unexpected error occurred. Please check the console for more details.');
@@ -133,88 +268,107 @@ const Home: React.FC = () => {
   };
 
 
-  const handleRate = async (id: number) => {
-    if (userVotes[id]) return;
-    console.log("Rating image with ID:", id);
+  const handleRate = async (id: number, rating: number) => {
+    if (userRatings[id] === rating) return;
+    console.log("Rating image with ID:", id, "Rating:", rating);
     try {
-      const image = images.find(img => img.id === id);
-      if (!image) return;
-      const { error } = await supabase.from('images')
-        .update({ stars: image.stars + 1, num_votes: image.num_votes + 1 })
-        .eq('id', id);
-      if (error) throw error;
+      const result = await submitRating(id, rating);
       ReactDOM.flushSync(() => {
-        setImages(prev => prev.map(img => 
-          img.id === id ? { ...img, stars: img.stars + 1, num_votes: img.num_votes + 1 } : img
+        setImages(prev => prev.map(img =>
+          img.id === id ? { ...img, stars: result.stars, num_votes: result.num_votes } : img
         ));
       });
-      const newUserVotes = { ...userVotes, [id]: true };
-      setUserVotes(newUserVotes);
-      localStorage.setItem('userVotes', JSON.stringify(newUserVotes));
+      setUserRatings(prev => ({ ...prev, [id]: result.rating }));
       console.log("Rating updated for image ID:", id);
     } catch (error) {
       console.error('Error updating rating:', error);
-      setError('Failed to update rating. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to update rating. Please try again.');
     }
   };
 
-  const renderGalleryItem = (item: Image, index: number) => (
+  const renderFieldError = (field: string) => fieldErrors[field] && (
+    <p className="text-sm text-red-600 mt-1">{fieldErrors[field]}</p>
+  );
+
+  const renderGalleryItem = (item: FeedImage, index: number) => (
     <Card key={item.id} className="flex flex-col" ref={index === images.length - 1 ? lastImageElementRef : null}>
       <CardHeader>
-        <CardTitle className="text-lg">{item.title}</CardTitle>
+        <CardTitle className="text-lg">
+          <Link href={`/art/${item.id}`} className="hover:underline">
+            {item.highlights ? <Highlight text={item.highlights.title} /> : item.title}
+          </Link>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          by{' '}
+          <Link href={`/artist/${item.artist_slug}`} className="hover:underline">
+            {item.highlights ? <Highlight text={item.highlights.artist_name} /> : item.artist_name}
+          </Link>
+        </p>
+        {item.challenge_id && item.challenge_rank && (
+          <div><ChallengeBadge challengeId={item.challenge_id} rank={item.challenge_rank} /></div>
+        )}
       </CardHeader>
       <CardContent className="flex-grow">
-        {item.youtube_link ? (
-          <iframe
-            width="100%"
-            height="200"
-            src={`https://www.youtube.com/embed/${item.youtube_link.split('v=')[1]}`}
-            frameBorder="0"
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowFullScreen
-          ></iframe>
-        ) : item.file_path ? (
-          <img
-            src={`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/images/${item.file_path}`}
-            alt={item.title}
-            className="w-full h-48 object-cover rounded-md"
-          />
-        ) : (
-          <div className="w-full h-48 bg-gray-200 flex items-center justify-center rounded-md">
-            No image or video available
+        <MediaView item={item} className="h-48" sizes={GALLERY_IMAGE_SIZES} />
+        {item.highlights && (
+          <p className="text-sm text-gray-600 mt-3 line-clamp-3">
+            <Highlight text={item.highlights.description} />
+          </p>
+        )}
+        {(item.model || item.tags.length > 0) && (
+          <div className="flex flex-wrap gap-1 mt-3 text-xs">
+            {item.model && (
+              <button type="button" onClick={() => updateFeedQuery({ model: item.model })} className="rounded-full bg-blue-50 px-2 py-0.5 text-blue-800 hover:bg-blue-100">
+                {GENERATORS[item.model]}{item.model_version ? ` ${item.model_version}` : ''}
+              </button>
+            )}
+            {item.tags.slice(0, 3).map(tag => (
+              <button key={tag} type="button" onClick={() => updateFeedQuery({ tag })} className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-700 hover:bg-gray-200">
+                #{tag}
+              </button>
+            ))}
           </div>
         )}
       </CardContent>
       <CardFooter className="flex justify-between items-center">
+        <div className="flex items-center">
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <InfoIcon className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="font-bold">{item.title}</p>
+                <p className="text-sm mt-1">Prompt: {item.description}</p>
+                <p className="text-sm mt-1">Artist: {item.artist_name}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          <ShareButton path={`/art/${item.id}`} title={item.title} />
+          <ReportButton imageId={item.id} onHidden={() => setImages(prev => prev.filter(img => img.id !== item.id))} />
+          <Link
+            href={`/art/${item.id}#comments`}
+            className="inline-flex items-center px-2 text-sm text-gray-600 hover:text-gray-900"
+            aria-label={`${item.comment_count ?? 0} comments`}
+          >
+            <MessageCircle className="mr-1 h-4 w-4" />
+            {item.comment_count ?? 0}
+          </Link>
+        </div>
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="sm">
-                <InfoIcon className="h-4 w-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent className="max-w-xs">
-              <p className="font-bold">{item.title}</p>
-              <p className="text-sm mt-1">Prompt: {item.description}</p>
-              <p className="text-sm mt-1">Artist: {item.artist_name}</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={() => handleRate(item.id)}
-                disabled={userVotes[item.id]}
-              >
-                <Star className={`mr-2 h-4 w-4 ${userVotes[item.id] ? 'fill-current' : ''}`} />
-                {item.stars} ({item.num_votes})
-              </Button>
+              <div className="flex items-center space-x-2">
+                <StarRating value={userRatings[item.id]} onRate={(rating) => handleRate(item.id, rating)} />
+                <span className="text-sm text-gray-600">
+                  {formatAverage(item.stars, item.num_votes)} ({item.num_votes})
+                </span>
+              </div>
             </TooltipTrigger>
             <TooltipContent>
-              {userVotes[item.id] ? "You've already voted" : "Click to vote"}
+              {userRatings[item.id] ? `You rated this ${userRatings[item.id]}/5. Click to change.` : "Click a star to rate"}
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
@@ -224,7 +378,17 @@ const Home: React.FC = () => {
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <h1 className="text-3xl font-bold text-gray-900 mb-8">Image Gallery</h1>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Image Gallery</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/challenges" className="inline-flex items-center text-gray-700 hover:text-gray-900">
+            <Trophy className="mr-1 h-4 w-4" /> Challenges
+          </Link>
+          <Link href="/my-submissions" className="inline-flex items-center text-gray-700 hover:text-gray-900">
+            <FolderOpen className="mr-1 h-4 w-4" /> My submissions
+          </Link>
+        </div>
+      </div>
 
       {error && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6" role="alert">
@@ -233,6 +397,12 @@ const Home: React.FC = () => {
         </div>
       )}
 
+      {notice && (
+        <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 mb-6" role="status">
+          <p>{notice}</p>
+        </div>
+      )}
+
       {showForm ? (
         <Card className="mb-8">
           <CardHeader>
@@ -245,51 +415,141 @@ const Home: React.FC = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="flex space-x-4">
+              <div>
+                <div className="flex space-x-4">
+                  <Input
+                    type="file"
+                    accept={ACCEPTED_UPLOAD_TYPES}
+                    onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                    disabled={!!formData.youtubeLink}
+                    className="flex-1"
+                  />
+                  <Input
+                    name="youtubeLink"
+                    value={formData.youtubeLink}
+                    onChange={handleInputChange}
+                    placeholder="Video link (YouTube, Vimeo…)"
+                    disabled={!!file}
+                    className="flex-1"
+                  />
+                </div>
+                {renderFieldError('file')}
+                {renderFieldError('youtubeLink')}
+                {similarEntries.length > 0 && (
+                  <div className="mt-2 text-sm">
+                    <ul className="list-disc pl-5">
+                      {similarEntries.map(entry => (
+                        <li key={entry.id}>
+                          <a href={`/art/${entry.id}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                            {entry.title}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                    <Button type="button" variant="outline" size="sm" className="mt-2" disabled={loadingSubmit} onClick={() => submitForm(true)}>
+                      Submit anyway
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div>
+                <Input
+                  name="title"
+                  value={formData.title}
+                  onChange={handleInputChange}
+                  placeholder="Title"
+                  required
+                />
+                {renderFieldError('title')}
+              </div>
+              <div>
+                <Textarea
+                  name="description"
+                  value={formData.description}
+                  onChange={handleInputChange}
+                  onBlur={handlePromptBlur}
+                  placeholder="Prompt"
+                  required
+                />
+                {renderFieldError('description')}
+              </div>
+              <details
+                className="rounded-md border p-3"
+                open={showGenerationDetails}
+                onToggle={(e) => setShowGenerationDetails(e.currentTarget.open)}
+              >
+                <summary className="cursor-pointer text-sm text-gray-700">Generation details (optional)</summary>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+                  <div>
+                    <select name="model" value={formData.model} onChange={handleInputChange} className={`${SELECT_CLASS_NAME} w-full`}>
+                      <option value="">Model / generator</option>
+                      {Object.entries(GENERATORS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    {renderFieldError('model')}
+                  </div>
+                  <div>
+                    <Input name="modelVersion" value={formData.modelVersion} onChange={handleInputChange} placeholder="Version (e.g. 6.1)" />
+                    {renderFieldError('modelVersion')}
+                  </div>
+                  <div>
+                    <Input name="aspectRatio" value={formData.aspectRatio} onChange={handleInputChange} placeholder="Aspect ratio (e.g. 16:9)" />
+                    {renderFieldError('aspectRatio')}
+                  </div>
+                  <div>
+                    <Input name="seed" inputMode="numeric" value={formData.seed} onChange={handleInputChange} placeholder="Seed" />
+                    {renderFieldError('seed')}
+                  </div>
+                  <div className="sm:col-span-2">
+                    <Textarea name="negativePrompt" value={formData.negativePrompt} onChange={handleInputChange} placeholder="Negative prompt" />
+                    {renderFieldError('negativePrompt')}
+                  </div>
+                  <div className="sm:col-span-2">
+                    <Input name="tags" value={formData.tags} onChange={handleInputChange} placeholder="Tags, separated by commas" />
+                    {renderFieldError('tags')}
+                  </div>
+                </div>
+              </details>
+              <div>
                 <Input
-                  type="file"
-                  accept="image/*,video/*"
-                  onChange={(e) => setFile(e.target.files?.[0] || null)}
-                  disabled={!!formData.youtubeLink}
-                  className="flex-1"
+                  name="artist"
+                  type="email"
+                  value={formData.artist}
+                  onChange={handleInputChange}
+                  placeholder="Your Email"
+                  required
                 />
+                {renderFieldError('artist')}
+              </div>
+              <div>
                 <Input
-                  name="youtubeLink"
-                  value={formData.youtubeLink}
+                  name="artistName"
+                  value={formData.artistName}
                   onChange={handleInputChange}
-                  placeholder="YouTube Link"
-                  disabled={!!file}
-                  className="flex-1"
+                  placeholder="Artist Name"
+                  required
                 />
+                {renderFieldError('artistName')}
               </div>
-              <Input
-                name="title"
-                value={formData.title}
-                onChange={handleInputChange}
-                placeholder="Title"
-                required
-              />
-              <Textarea
-                name="description"
-                value={formData.description}
-                onChange={handleInputChange}
-                placeholder="Prompt"
-                required
-              />
-              <Input
-                name="artist"
-                value={formData.artist}
-                onChange={handleInputChange}
-                placeholder="Your Email"
-                required
-              />
-              <Input
-                name="artistName"
-                value={formData.artistName}
-                onChange={handleInputChange}
-                placeholder="Artist Name"
-                required
-              />
+              {openChallenges.length > 0 && (
+                <div>
+                  <select
+                    name="challengeId"
+                    value={formData.challengeId}
+                    onChange={handleInputChange}
+                    className={`${SELECT_CLASS_NAME} w-full`}
+                  >
+                    <option value="">Not entering a challenge</option>
+                    {openChallenges.map(challenge => (
+                      <option key={challenge.id} value={challenge.id}>
+                        Enter &quot;{challenge.title}&quot; (closes {new Date(challenge.ends_at).toLocaleDateString()})
+                      </option>
+                    ))}
+                  </select>
+                  {renderFieldError('challengeId')}
+                </div>
+              )}
               <Button type="submit" className="w-full" disabled={loadingSubmit}>
                 {loadingSubmit ? 'Uploading...' : 'Upload'}
               </Button>
@@ -302,6 +562,90 @@ const Home: React.FC = () => {
         </Button>
       )}
 
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-600 flex-1 min-w-[16rem]">
+          Search
+          <div className="relative mt-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Titles, prompts or artists"
+              className="pl-9"
+            />
+          </div>
+        </label>
+        <label className="text-sm text-gray-600">
+          Sort by
+          <select
+            value={feedQuery.q ? 'relevance' : feedQuery.sort}
+            onChange={(e) => updateFeedQuery({ sort: e.target.value as FeedSort })}
+            disabled={!!feedQuery.q}
+            className={SELECT_CLASS_NAME}
+          >
+            {feedQuery.q && <option value="relevance">Relevance</option>}
+            {Object.entries(FEED_SORTS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-600">
+          Type
+          <select
+            value={feedQuery.mediaType ?? ''}
+            onChange={(e) => updateFeedQuery({ mediaType: (e.target.value || null) as MediaTypeFilter | null })}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">All media</option>
+            {Object.entries(MEDIA_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-600">
+          Model
+          <select
+            value={feedQuery.model ?? ''}
+            onChange={(e) => updateFeedQuery({ model: (e.target.value || null) as Generator | null })}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">All models</option>
+            {Object.entries(GENERATORS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-600">
+          From
+          <Input
+            type="date"
+            value={feedQuery.from ?? ''}
+            onChange={(e) => updateFeedQuery({ from: e.target.value || null })}
+            className="mt-1"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          To
+          <Input
+            type="date"
+            value={feedQuery.to ?? ''}
+            onChange={(e) => updateFeedQuery({ to: e.target.value || null })}
+            className="mt-1"
+          />
+        </label>
+        {feedQuery.tag && (
+          <Button variant="secondary" onClick={() => updateFeedQuery({ tag: null })} aria-label={`Remove tag filter ${feedQuery.tag}`}>
+            #{feedQuery.tag} <X className="ml-1 h-4 w-4" />
+          </Button>
+        )}
+        {feedKey !== JSON.stringify(parseFeedQuery({})) && (
+          <Button variant="ghost" onClick={() => router.replace(router.pathname, undefined, { shallow: true })}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
         {images.map((item, index) => renderGalleryItem(item, index))}
       </div>
@@ -312,6 +656,12 @@ const Home: React.FC = () => {
         </div>
       )}
 
+      {!loading && !hasMore && images.length === 0 && (
+        <p className="text-center mt-8 text-gray-500">
+          {feedQuery.q ? `No results for "${feedQuery.q}".` : 'No images match these filters.'}
+        </p>
+      )}
+
       {!loading && !hasMore && images.length > 0 && (
         <p className="text-center mt-8 text-gray-500">No more images to load.</p>
       )}
@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeft } from 'lucide-react';
+import MediaView from '../components/MediaView';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import type { CreatorImage } from '../lib/types';
+
+function statusLabel(image: CreatorImage): string {
+  if (image.status === 'rejected') return `Rejected${image.rejection_reason ? `: ${image.rejection_reason}` : ''}`;
+  if (image.status === 'pending') return 'Waiting for moderation';
+  if (image.hidden) return 'Hidden by a moderator';
+  return 'Published';
+}
+
+// Where submitters manage their entries. The emailed magic link brings them
+// here with a signed token in the query; without one they can ask for a
+// new link.
+const MySubmissionsPage: React.FC = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : null;
+  const [email, setEmail] = useState('');
+  const [submissions, setSubmissions] = useState<CreatorImage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: number; title: string; description: string } | null>(null);
+  const [replacing, setReplacing] = useState<{ id: number; file: File | null; youtubeLink: string } | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const creatorRequest = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } });
+    if (response.status === 401) {
+      setSubmissions(null);
+    }
+    return response;
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) return;
+    creatorRequest('/api/creator/submissions')
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.message);
+        setEmail(result.email);
+        setSubmissions(result.submissions);
+      })
+      .catch(error => setError(error.message || 'Failed to load your submissions.'));
+  }, [token, creatorRequest]);
+
+  const requestLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const response = await fetch('/api/creator/link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    const result = await response.json().catch(() => ({ message: null }));
+    if (!response.ok) {
+      setError(result.message || 'Failed to send the link. Please try again.');
+      return;
+    }
+    setNotice(result.message);
+  };
+
+  const replaceSubmission = (updated: CreatorImage) =>
+    setSubmissions(prev => prev && prev.map(image => image.id === updated.id ? updated : image));
+
+  // Runs one change against an entry and reports its outcome.
+  const runAction = async (id: number, action: () => Promise<Response>, onSuccess: (response: Response) => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({ message: null }));
+        throw new Error(result.message || `Request failed with status ${response.status}`);
+      }
+      await onSuccess(response);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    runAction(
+      editing.id,
+      () => creatorRequest(`/api/creator/submissions/${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: editing.title, description: editing.description }),
+      }),
+      async response => {
+        replaceSubmission(await response.json());
+        setEditing(null);
+        setNotice('Your changes were saved.');
+      },
+    );
+  };
+
+  const saveMedia = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replacing) return;
+    const body = new FormData();
+    if (replacing.file) body.append('file', replacing.file);
+    else body.append('youtubeLink', replacing.youtubeLink);
+    runAction(
+      replacing.id,
+      () => creatorRequest(`/api/creator/submissions/${replacing.id}/media`, { method: 'PUT', body }),
+      async response => {
+        replaceSubmission(await response.json());
+        setReplacing(null);
+        setNotice('The media was replaced.');
+      },
+    );
+  };
+
+  const deleteSubmission = (image: CreatorImage) => {
+    if (!window.confirm(`Delete "${image.title}"? This cannot be undone.`)) return;
+    runAction(
+      image.id,
+      () => creatorRequest(`/api/creator/submissions/${image.id}`, { method: 'DELETE' }),
+      async () => {
+        setSubmissions(prev => prev && prev.filter(entry => entry.id !== image.id));
+        setNotice('The submission was deleted.');
+      },
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Head>
+        <title>My submissions – /Imagine AI Gallery</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <Link href="/" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+        <ArrowLeft className="mr-1 h-4 w-4" /> Back to Gallery
+      </Link>
+
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">My submissions</h1>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      {notice && (
+        <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 mb-6" role="status">
+          <p>{notice}</p>
+        </div>
+      )}
+
+      {submissions === null ? (
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Get a link</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={requestLink} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Enter the email you submitted with and we&apos;ll send you a link to manage your entries.
+              </p>
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="you@example.com" required />
+              <Button type="submit">Email me a link</Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-6">Signed in as {email}.</p>
+          {submissions.length === 0 && <p className="text-gray-500">You have no submissions.</p>}
+          <div className="space-y-6">
+            {submissions.map(image => (
+              <Card key={image.id}>
+                <CardContent className="flex flex-col md:flex-row gap-4 pt-6">
+                  <div className="md:w-64 shrink-0">
+                    <MediaView item={image} className="h-48" sizes="256px" />
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    {editing?.id === image.id ? (
+                      <form onSubmit={saveEdit} className="space-y-2">
+                        <Input
+                          value={editing.title}
+                          onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                          maxLength={200}
+                          required
+                        />
+                        <Textarea
+                          value={editing.description}
+                          onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                          required
+                        />
+                        <div className="flex space-x-2">
+                          <Button type="submit" size="sm" disabled={busyId === image.id}>Save</Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                        </div>
+                      </form>
+                    ) : (
+                      <>
+                        <h2 className="text-xl font-semibold">
+                          {image.status === 'approved' && !image.hidden
+                            ? <Link href={`/art/${image.id}`} className="hover:underline">{image.title}</Link>
+                            : image.title}
+                        </h2>
+                        <p className="text-gray-800 whitespace-pre-wrap">{image.description}</p>
+                      </>
+                    )}
+                    <p className="text-sm text-gray-600">
+                      {statusLabel(image)} · submitted {new Date(image.created_at).toLocaleDateString()}
+                    </p>
+                    {replacing?.id === image.id && (
+                      <form onSubmit={saveMedia} className="space-y-2 border-t pt-2">
+                        <p className="text-sm text-gray-600">
+                          Upload a new file or paste a video link. The ratings of the current media are cleared.
+                        </p>
+                        <Input
+                          type="file"
+                          accept="image/*,video/mp4,video/quicktime,video/webm"
+                          onChange={(e) => setReplacing({ ...replacing, file: e.target.files?.[0] ?? null })}
+                        />
+                        <Input
+                          value={replacing.youtubeLink}
+                          onChange={(e) => setReplacing({ ...replacing, youtubeLink: e.target.value })}
+                          placeholder="or a YouTube, Vimeo or Dailymotion link"
+                          disabled={!!replacing.file}
+                        />
+                        <div className="flex space-x-2">
+                          <Button
+                            type="submit"
+                            size="sm"
+                            disabled={busyId === image.id || (!replacing.file && !replacing.youtubeLink.trim())}
+                          >
+                            {busyId === image.id ? 'Uploading...' : 'Replace'}
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setReplacing(null)}>Cancel</Button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                </CardContent>
+                <CardFooter className="space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditing({ id: image.id, title: image.title, description: image.description })}
+                  >
+                    Edit
+                  </Button>
+                  {image.challenge_rank === null && (
+                    <Button variant="outline" size="sm" onClick={() => setReplacing({ id: image.id, file: null, youtubeLink: '' })}>
+                      Replace media
+                    </Button>
+                  )}
+                  <Button variant="destructive" size="sm" onClick={() => deleteSubmission(image)} disabled={busyId === image.id}>
+                    Delete
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MySubmissionsPage;
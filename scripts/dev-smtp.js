@@ -0,0 +1,27 @@
+// Local SMTP stand-in for development: accepts every message on port 1025
+// (or SMTP_PORT) and prints it instead of delivering it. Point the app at it
+// with SMTP_URL=smtp://localhost:1025.
+const { SMTPServer } = require('smtp-server');
+const { simpleParser } = require('mailparser');
+
+const port = Number(process.env.SMTP_PORT || 1025);
+
+const server = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ['STARTTLS'],
+  onData(stream, session, callback) {
+    simpleParser(stream)
+      .then(mail => {
+        console.log('─'.repeat(72));
+        console.log(`From:    ${mail.from?.text ?? ''}`);
+        console.log(`To:      ${mail.to ? [].concat(mail.to).map(to => to.text).join(', ') : ''}`);
+        console.log(`Subject: ${mail.subject ?? ''}`);
+        console.log('');
+        console.log(mail.text ?? '');
+        callback();
+      })
+      .catch(callback);
+  },
+});
+
+server.listen(port, () => console.log(`Dev SMTP server listening on smtp://localhost:${port}`));
@@ -0,0 +1,12 @@
+// Prints an ADMIN_PASSWORD_HASH value for the password given as argument.
+// Keep in sync with hashPassword in lib/adminAuth.ts.
+const { randomBytes, scryptSync } = require('crypto');
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+console.log(`scrypt$${salt.toString('hex')}$${scryptSync(password, salt, 64).toString('hex')}`);
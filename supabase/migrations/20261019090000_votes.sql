@@ -0,0 +1,43 @@
+-- One row per vote; the unique indexes are what enforce one vote per image
+-- for each voter session and each client fingerprint.
+create table if not exists public.votes (
+  id bigint generated by default as identity primary key,
+  image_id bigint not null references public.images (id) on delete cascade,
+  voter_id text not null,
+  fingerprint text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists votes_image_voter_idx on public.votes (image_id, voter_id);
+create unique index if not exists votes_image_fingerprint_idx on public.votes (image_id, fingerprint);
+
+-- Only the service role (used by /api/vote) touches this table.
+alter table public.votes enable row level security;
+
+-- Records the vote and bumps the counters in one transaction. Returns
+-- accepted = false with the current counts when the voter already voted.
+create or replace function public.cast_vote(p_image_id bigint, p_voter_id text, p_fingerprint text)
+returns table (accepted boolean, stars integer, num_votes integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into votes (image_id, voter_id, fingerprint)
+  values (p_image_id, p_voter_id, p_fingerprint)
+  on conflict do nothing;
+
+  if not found then
+    return query select false, i.stars, i.num_votes from images i where i.id = p_image_id;
+    return;
+  end if;
+
+  return query
+    update images i
+    set stars = i.stars + 1, num_votes = i.num_votes + 1
+    where i.id = p_image_id
+    returning true, i.stars, i.num_votes;
+end;
+$$;
+
+revoke execute on function public.cast_vote(bigint, text, text) from public, anon, authenticated;
@@ -0,0 +1,94 @@
+-- Votes become 1-5 star ratings. images.stars now holds the sum of all
+-- ratings and images.num_votes their count, so the average is
+-- stars / num_votes.
+--
+-- Votes cast before this migration were single "+1" clicks with no rating.
+-- Their rows stay, with a null rating, so those voters still can't vote
+-- twice, but they are left out of stars and num_votes and only counted in
+-- images.legacy_votes. A legacy voter who rates later turns their click
+-- into a rating.
+alter table public.votes
+  add column if not exists rating smallint check (rating between 1 and 5),
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.images
+  add column if not exists legacy_votes integer not null default 0;
+
+update public.images set legacy_votes = num_votes, stars = 0, num_votes = 0;
+
+drop function if exists public.cast_vote(bigint, text, text);
+
+-- Creates or changes the voter's rating and adjusts the image totals in the
+-- same transaction. A voter matching an existing vote by session or by
+-- fingerprint updates that vote instead of adding another one.
+create or replace function public.rate_image(p_image_id bigint, p_voter_id text, p_fingerprint text, p_rating smallint)
+returns table (stars integer, num_votes integer, rating smallint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_vote_id bigint;
+  v_previous smallint;
+begin
+  if p_rating < 1 or p_rating > 5 then
+    raise exception 'rating must be between 1 and 5';
+  end if;
+
+  loop
+    select v.id, v.rating into v_vote_id, v_previous
+    from votes v
+    where v.image_id = p_image_id and (v.voter_id = p_voter_id or v.fingerprint = p_fingerprint)
+    order by v.created_at
+    limit 1
+    for update;
+
+    if found then
+      update votes set rating = p_rating, updated_at = now() where id = v_vote_id;
+      if v_previous is null then
+        return query
+          update images i
+          set stars = i.stars + p_rating, num_votes = i.num_votes + 1, legacy_votes = greatest(i.legacy_votes - 1, 0)
+          where i.id = p_image_id
+          returning i.stars, i.num_votes, p_rating;
+      else
+        return query
+          update images i
+          set stars = i.stars + p_rating - v_previous
+          where i.id = p_image_id
+          returning i.stars, i.num_votes, p_rating;
+      end if;
+      return;
+    end if;
+
+    insert into votes (image_id, voter_id, fingerprint, rating)
+    values (p_image_id, p_voter_id, p_fingerprint, p_rating)
+    on conflict do nothing;
+
+    if found then
+      return query
+        update images i
+        set stars = i.stars + p_rating, num_votes = i.num_votes + 1
+        where i.id = p_image_id
+        returning i.stars, i.num_votes, p_rating;
+      return;
+    end if;
+    -- A concurrent request inserted the vote first; loop to update it.
+  end loop;
+end;
+$$;
+
+revoke execute on function public.rate_image(bigint, text, text, smallint) from public, anon, authenticated;
+
+-- Per-image rating histogram for the admin view. Exposes counts only, never
+-- voter identifiers.
+create or replace view public.image_rating_distribution as
+select
+  image_id,
+  count(*) filter (where rating = 1)::integer as one_star,
+  count(*) filter (where rating = 2)::integer as two_stars,
+  count(*) filter (where rating = 3)::integer as three_stars,
+  count(*) filter (where rating = 4)::integer as four_stars,
+  count(*) filter (where rating = 5)::integer as five_stars
+from public.votes
+group by image_id;
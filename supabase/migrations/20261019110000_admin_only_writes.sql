@@ -0,0 +1,3 @@
+-- Moderation now goes through the admin API routes with the service role,
+-- so the public roles must no longer be able to change or remove entries.
+revoke update, delete on public.images from anon, authenticated;
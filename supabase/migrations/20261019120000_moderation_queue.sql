@@ -0,0 +1,15 @@
+-- Moderation states. Existing entries are already live, so they start out
+-- approved; with PREMODERATION=true new submissions start out pending.
+create type public.image_status as enum ('pending', 'approved', 'rejected');
+
+alter table public.images
+  add column if not exists status public.image_status not null default 'approved',
+  add column if not exists rejection_reason text,
+  add column if not exists moderated_at timestamptz,
+  add column if not exists moderated_by text;
+
+create index if not exists images_status_created_at_idx on public.images (status, created_at desc);
+
+-- Submissions are inserted by /api/submissions, which decides the initial
+-- status; a direct insert could otherwise skip the queue.
+revoke insert on public.images from anon, authenticated;
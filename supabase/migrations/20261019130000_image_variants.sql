@@ -0,0 +1,8 @@
+-- Resized copies generated at upload time. `variants` is a list of
+-- { width, format, path } objects pointing into the images bucket; older
+-- entries have none and fall back to the original file.
+alter table public.images
+  add column if not exists width integer,
+  add column if not exists height integer,
+  add column if not exists variants jsonb not null default '[]'::jsonb,
+  add column if not exists blur_data_url text;
@@ -0,0 +1,11 @@
+-- What kind of media an entry holds: an uploaded image, an uploaded video,
+-- or an embedded link (youtube_link).
+alter table public.images
+  add column if not exists media_type text not null default 'image'
+    check (media_type in ('image', 'video', 'embed')),
+  add column if not exists poster_path text,
+  add column if not exists duration_seconds numeric(8, 1);
+
+update public.images set media_type = 'embed' where youtube_link is not null;
+update public.images set media_type = 'video'
+  where youtube_link is null and file_path ~* '\.(mp4|mov|webm)$';
@@ -0,0 +1,9 @@
+-- Canonical form of the video link in youtube_link, parsed at submit time
+-- by lib/embeds.ts. Entries from before this migration have these unset;
+-- the gallery parses their youtube_link on the fly instead.
+alter table public.images
+  add column if not exists embed_provider text
+    check (embed_provider in ('youtube', 'youtube_playlist', 'vimeo', 'dailymotion')),
+  add column if not exists embed_id text,
+  add column if not exists embed_start_seconds integer,
+  add column if not exists embed_thumbnail_url text;
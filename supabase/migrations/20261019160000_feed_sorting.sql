@@ -0,0 +1,17 @@
+-- Public feed with the values the sort modes need. Only approved, visible
+-- entries are included. avg_rating is 0 for unrated entries and
+-- recent_votes counts ratings given in the last 7 days (trending).
+create or replace view public.image_feed as
+select
+  i.*,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes
+from public.images i
+where i.hidden = false and i.status = 'approved';
+
+create index if not exists votes_image_created_at_idx on public.votes (image_id, created_at);
+create index if not exists images_num_votes_idx on public.images (num_votes desc, id desc);
@@ -0,0 +1,58 @@
+-- Full-text search over title, artist name and prompt. The 'simple'
+-- configuration doesn't stem, which suits prompts mixing English and
+-- Spanish.
+alter table public.images
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(artist_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+  ) stored;
+
+create index if not exists images_search_vector_idx on public.images using gin (search_vector);
+
+-- Ranked matches from the public feed. Every word of p_query must match,
+-- the last ones as prefixes so results update while typing. Highlights wrap
+-- matches in [[[ ]]], which lib/search.ts turns into <mark> elements.
+create or replace function public.search_images(
+  p_query text,
+  p_media_type text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 12,
+  p_offset integer default 0
+)
+returns table (
+  id bigint,
+  rank real,
+  title_highlight text,
+  description_highlight text,
+  artist_name_highlight text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select string_agg(quote_literal(lexeme) || ':*', ' & ')::tsquery as q
+    from unnest(tsvector_to_array(to_tsvector('simple', p_query))) as lexeme
+  )
+  select
+    f.id,
+    ts_rank_cd(i.search_vector, query.q) as rank,
+    ts_headline('simple', f.title, query.q, 'HighlightAll=true, StartSel=[[[, StopSel=]]]'),
+    ts_headline('simple', f.description, query.q, 'MaxFragments=2, MaxWords=25, MinWords=10, StartSel=[[[, StopSel=]]]'),
+    ts_headline('simple', f.artist_name, query.q, 'HighlightAll=true, StartSel=[[[, StopSel=]]]')
+  from image_feed f
+  join images i on i.id = f.id
+  cross join query
+  where query.q is not null
+    and i.search_vector @@ query.q
+    and (p_media_type is null or f.media_type = p_media_type)
+    and (p_from is null or f.created_at >= p_from)
+    and (p_to is null or f.created_at < p_to)
+  order by rank desc, f.id desc
+  limit p_limit
+  offset p_offset;
+$$;
+
+revoke execute on function public.search_images(text, text, timestamptz, timestamptz, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,47 @@
+-- Public identifier for each submitter, used in /artist/<slug> URLs so
+-- pages can group work by email without ever showing the email. All
+-- entries from one email share one slug; new ones are assigned by
+-- lib/artists.ts.
+alter table public.images add column if not exists artist_slug text;
+
+update public.images set artist = lower(trim(artist));
+
+create extension if not exists unaccent with schema extensions;
+
+with artists as (
+  select
+    artist,
+    coalesce(
+      nullif(trim(both '-' from regexp_replace(lower(extensions.unaccent(min(artist_name))), '[^a-z0-9]+', '-', 'g')), ''),
+      'artist'
+    ) as base
+  from public.images
+  group by artist
+),
+numbered as (
+  select artist, base, row_number() over (partition by base order by artist) as n
+  from artists
+)
+update public.images i
+set artist_slug = case when numbered.n = 1 then numbered.base else numbered.base || '-' || numbered.n end
+from numbered
+where numbered.artist = i.artist;
+
+alter table public.images alter column artist_slug set not null;
+create index if not exists images_artist_slug_idx on public.images (artist_slug);
+create index if not exists images_artist_idx on public.images (artist);
+
+-- The view expands i.* when created, so it has to be rebuilt to pick up
+-- the new column.
+drop view if exists public.image_feed;
+create view public.image_feed as
+select
+  i.*,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes
+from public.images i
+where i.hidden = false and i.status = 'approved';
@@ -0,0 +1,42 @@
+-- image_feed becomes the only public read surface for entries, with an
+-- explicit column list instead of i.* so the submitter's email (artist) and
+-- moderation details can't leak through it. Keep in sync with PublicImage
+-- in lib/types.ts.
+drop view if exists public.image_feed;
+create view public.image_feed as
+select
+  i.id,
+  i.title,
+  i.description,
+  i.artist_name,
+  i.artist_slug,
+  i.media_type,
+  i.file_path,
+  i.youtube_link,
+  i.embed_provider,
+  i.embed_id,
+  i.embed_start_seconds,
+  i.embed_thumbnail_url,
+  i.poster_path,
+  i.duration_seconds,
+  i.width,
+  i.height,
+  i.variants,
+  i.blur_data_url,
+  i.stars,
+  i.num_votes,
+  i.created_at,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes
+from public.images i
+where i.hidden = false and i.status = 'approved';
+
+grant select on public.image_feed to anon, authenticated;
+
+-- The admin page now reads through /api/admin/images.
+revoke select on public.images from anon, authenticated;
+revoke select on public.image_rating_distribution from anon, authenticated;
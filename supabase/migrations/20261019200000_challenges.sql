@@ -0,0 +1,98 @@
+-- Themed rounds. Entries join a challenge at submit time; once ends_at has
+-- passed, finalize_challenge ranks them and marks the top three.
+create table if not exists public.challenges (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  description text not null default '',
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  winners_announced_at timestamptz,
+  created_by text,
+  created_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+alter table public.challenges enable row level security;
+
+alter table public.images
+  add column if not exists challenge_id bigint references public.challenges (id) on delete set null,
+  add column if not exists challenge_rank smallint check (challenge_rank between 1 and 3);
+
+create index if not exists images_challenge_id_idx on public.images (challenge_id);
+
+-- Ranks a finished challenge by average rating (then number of votes, then
+-- earliest entry) and stores the top three. Safe to call repeatedly and
+-- concurrently: only the call that claims winners_announced_at does the
+-- ranking. Returns true if it announced the winners.
+create or replace function public.finalize_challenge(p_challenge_id bigint)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update challenges
+  set winners_announced_at = now()
+  where id = p_challenge_id and ends_at <= now() and winners_announced_at is null;
+
+  if not found then
+    return false;
+  end if;
+
+  with ranked as (
+    select
+      i.id,
+      row_number() over (
+        order by i.stars::numeric / i.num_votes desc, i.num_votes desc, i.created_at
+      ) as position
+    from images i
+    where i.challenge_id = p_challenge_id
+      and i.hidden = false
+      and i.status = 'approved'
+      and i.num_votes > 0
+  )
+  update images i
+  set challenge_rank = ranked.position
+  from ranked
+  where ranked.id = i.id and ranked.position <= 3;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.finalize_challenge(bigint) from public, anon, authenticated;
+
+-- New columns go at the end so the view can be replaced in place.
+create or replace view public.image_feed as
+select
+  i.id,
+  i.title,
+  i.description,
+  i.artist_name,
+  i.artist_slug,
+  i.media_type,
+  i.file_path,
+  i.youtube_link,
+  i.embed_provider,
+  i.embed_id,
+  i.embed_start_seconds,
+  i.embed_thumbnail_url,
+  i.poster_path,
+  i.duration_seconds,
+  i.width,
+  i.height,
+  i.variants,
+  i.blur_data_url,
+  i.stars,
+  i.num_votes,
+  i.created_at,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes,
+  i.challenge_id,
+  i.challenge_rank
+from public.images i
+where i.hidden = false and i.status = 'approved';
@@ -0,0 +1,104 @@
+-- Structured generation details alongside the free-text prompt. model is
+-- one of the keys of GENERATORS in lib/promptMetadata.ts; tags are stored
+-- normalized (lowercase, hyphenated).
+alter table public.images
+  add column if not exists model text,
+  add column if not exists model_version text,
+  add column if not exists aspect_ratio text,
+  add column if not exists seed bigint check (seed >= 0),
+  add column if not exists negative_prompt text,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists images_model_idx on public.images (model);
+create index if not exists images_tags_idx on public.images using gin (tags);
+
+create or replace view public.image_feed as
+select
+  i.id,
+  i.title,
+  i.description,
+  i.artist_name,
+  i.artist_slug,
+  i.media_type,
+  i.file_path,
+  i.youtube_link,
+  i.embed_provider,
+  i.embed_id,
+  i.embed_start_seconds,
+  i.embed_thumbnail_url,
+  i.poster_path,
+  i.duration_seconds,
+  i.width,
+  i.height,
+  i.variants,
+  i.blur_data_url,
+  i.stars,
+  i.num_votes,
+  i.created_at,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes,
+  i.challenge_id,
+  i.challenge_rank,
+  i.model,
+  i.model_version,
+  i.aspect_ratio,
+  i.seed,
+  i.negative_prompt,
+  i.tags
+from public.images i
+where i.hidden = false and i.status = 'approved';
+
+-- search_images gains the model and tag filters of the feed.
+drop function if exists public.search_images(text, text, timestamptz, timestamptz, integer, integer);
+
+create or replace function public.search_images(
+  p_query text,
+  p_media_type text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 12,
+  p_offset integer default 0,
+  p_model text default null,
+  p_tag text default null
+)
+returns table (
+  id bigint,
+  rank real,
+  title_highlight text,
+  description_highlight text,
+  artist_name_highlight text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select string_agg(quote_literal(lexeme) || ':*', ' & ')::tsquery as q
+    from unnest(tsvector_to_array(to_tsvector('simple', p_query))) as lexeme
+  )
+  select
+    f.id,
+    ts_rank_cd(i.search_vector, query.q) as rank,
+    ts_headline('simple', f.title, query.q, 'HighlightAll=true, StartSel=[[[, StopSel=]]]'),
+    ts_headline('simple', f.description, query.q, 'MaxFragments=2, MaxWords=25, MinWords=10, StartSel=[[[, StopSel=]]]'),
+    ts_headline('simple', f.artist_name, query.q, 'HighlightAll=true, StartSel=[[[, StopSel=]]]')
+  from image_feed f
+  join images i on i.id = f.id
+  cross join query
+  where query.q is not null
+    and i.search_vector @@ query.q
+    and (p_media_type is null or f.media_type = p_media_type)
+    and (p_from is null or f.created_at >= p_from)
+    and (p_to is null or f.created_at < p_to)
+    and (p_model is null or f.model = p_model)
+    and (p_tag is null or f.tags @> array[p_tag])
+  order by rank desc, f.id desc
+  limit p_limit
+  offset p_offset;
+$$;
+
+revoke execute on function public.search_images(text, text, timestamptz, timestamptz, integer, integer, text, text) from public, anon, authenticated;
@@ -0,0 +1,45 @@
+-- Perceptual (difference) hash of each image, or of a video's poster frame,
+-- computed by lib/perceptualHash.ts. Entries from before this migration
+-- have none and are skipped by the checks below.
+alter table public.images
+  add column if not exists perceptual_hash bit(64);
+
+-- Public entries whose hash is within p_max_distance bits of p_hash, for
+-- warning a submitter before they post a near-duplicate.
+create or replace function public.find_similar_images(p_hash bit(64), p_max_distance integer)
+returns table (id bigint, title text, distance integer)
+language sql
+stable
+set search_path = public
+as $$
+  select i.id, i.title, bit_count(i.perceptual_hash # p_hash)::integer as distance
+  from images i
+  where i.hidden = false
+    and i.status = 'approved'
+    and i.perceptual_hash is not null
+    and bit_count(i.perceptual_hash # p_hash) <= p_max_distance
+  order by distance, i.id desc
+  limit 5;
+$$;
+
+-- Every pair of non-rejected entries within p_max_distance bits, for the
+-- admin duplicates panel. Compares all pairs, which is fine at the
+-- gallery's size.
+create or replace function public.image_duplicate_pairs(p_max_distance integer)
+returns table (image_id bigint, other_id bigint, distance integer)
+language sql
+stable
+set search_path = public
+as $$
+  select a.id, b.id, bit_count(a.perceptual_hash # b.perceptual_hash)::integer
+  from images a
+  join images b on b.id > a.id
+  where a.perceptual_hash is not null
+    and b.perceptual_hash is not null
+    and a.status <> 'rejected'
+    and b.status <> 'rejected'
+    and bit_count(a.perceptual_hash # b.perceptual_hash) <= p_max_distance;
+$$;
+
+revoke execute on function public.find_similar_images(bit, integer) from public, anon, authenticated;
+revoke execute on function public.image_duplicate_pairs(integer) from public, anon, authenticated;
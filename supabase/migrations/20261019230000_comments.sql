@@ -0,0 +1,61 @@
+-- Anonymous threaded comments. Posting goes through /api/comments, which
+-- rate limits and filters them; admins can hide or delete them.
+create table if not exists public.comments (
+  id bigint generated by default as identity primary key,
+  image_id bigint not null references public.images (id) on delete cascade,
+  parent_id bigint references public.comments (id) on delete cascade,
+  author_name text not null check (char_length(author_name) between 1 and 60),
+  body text not null check (char_length(body) between 1 and 2000),
+  voter_id text, -- the poster's voter_id cookie, to spot repeat abusers
+  hidden boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists comments_image_id_idx on public.comments (image_id, created_at);
+
+alter table public.comments enable row level security;
+
+create or replace view public.image_feed as
+select
+  i.id,
+  i.title,
+  i.description,
+  i.artist_name,
+  i.artist_slug,
+  i.media_type,
+  i.file_path,
+  i.youtube_link,
+  i.embed_provider,
+  i.embed_id,
+  i.embed_start_seconds,
+  i.embed_thumbnail_url,
+  i.poster_path,
+  i.duration_seconds,
+  i.width,
+  i.height,
+  i.variants,
+  i.blur_data_url,
+  i.stars,
+  i.num_votes,
+  i.created_at,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes,
+  i.challenge_id,
+  i.challenge_rank,
+  i.model,
+  i.model_version,
+  i.aspect_ratio,
+  i.seed,
+  i.negative_prompt,
+  i.tags,
+  (
+    select count(*)::integer
+    from public.comments c
+    where c.image_id = i.id and c.hidden = false
+  ) as comment_count
+from public.images i
+where i.hidden = false and i.status = 'approved';
@@ -0,0 +1,95 @@
+-- Visitor reports of inappropriate entries. Each visitor (by session or
+-- fingerprint, as for votes) can have one open report per entry. Once an
+-- entry collects enough open reports it is hidden until an admin reviews
+-- it; reviewing closes the reports.
+create table if not exists public.reports (
+  id bigint generated by default as identity primary key,
+  image_id bigint not null references public.images (id) on delete cascade,
+  reason text not null check (reason in ('spam', 'nsfw', 'offensive', 'copyright', 'other')),
+  details text check (char_length(details) <= 500),
+  voter_id text not null,
+  fingerprint text not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by text
+);
+
+create unique index if not exists reports_open_voter_idx
+  on public.reports (image_id, voter_id) where resolved_at is null;
+create index if not exists reports_open_image_idx
+  on public.reports (image_id) where resolved_at is null;
+
+alter table public.reports enable row level security;
+
+-- Set when reports hid the entry, so dismissing them can show it again
+-- without undoing a hide an admin chose.
+alter table public.images
+  add column if not exists auto_hidden_at timestamptz;
+
+-- Records a report and, when p_threshold (> 0) open reports are reached,
+-- hides the entry. Returns whether this report was new and whether the
+-- entry is now hidden.
+create or replace function public.report_image(
+  p_image_id bigint,
+  p_voter_id text,
+  p_fingerprint text,
+  p_reason text,
+  p_details text,
+  p_threshold integer
+)
+returns table (created boolean, hidden boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_created boolean := false;
+  v_open integer;
+begin
+  -- Serialise reports per entry so the threshold check sees every report.
+  perform 1 from images where id = p_image_id for update;
+
+  if not exists (
+    select 1 from reports r
+    where r.image_id = p_image_id
+      and r.resolved_at is null
+      and (r.voter_id = p_voter_id or r.fingerprint = p_fingerprint)
+  ) then
+    insert into reports (image_id, reason, details, voter_id, fingerprint)
+    values (p_image_id, p_reason, nullif(p_details, ''), p_voter_id, p_fingerprint);
+    v_created := true;
+  end if;
+
+  select count(*) into v_open from reports r where r.image_id = p_image_id and r.resolved_at is null;
+
+  if p_threshold > 0 and v_open >= p_threshold then
+    update images i
+    set hidden = true, auto_hidden_at = now()
+    where i.id = p_image_id and i.hidden = false;
+  end if;
+
+  return query select v_created, i.hidden from images i where i.id = p_image_id;
+end;
+$$;
+
+revoke execute on function public.report_image(bigint, text, text, text, text, integer) from public, anon, authenticated;
+
+-- Open reports per entry for the admin view.
+create or replace view public.image_report_summary as
+with open_reports as (
+  select * from public.reports where resolved_at is null
+),
+by_reason as (
+  select image_id, reason, count(*)::integer as count
+  from open_reports
+  group by image_id, reason
+)
+select
+  o.image_id,
+  count(*)::integer as report_count,
+  (select jsonb_object_agg(b.reason, b.count) from by_reason b where b.image_id = o.image_id) as reasons,
+  max(o.created_at) as last_reported_at
+from open_reports o
+group by o.image_id;
+
+revoke select on public.image_report_summary from anon, authenticated;
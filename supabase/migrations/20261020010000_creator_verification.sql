@@ -0,0 +1,51 @@
+-- Submitters confirm their email through a magic link before their entry is
+-- published. Entries submitted before this change count as confirmed.
+alter table public.images
+  add column email_verified_at timestamptz;
+
+update public.images set email_verified_at = created_at;
+
+create or replace view public.image_feed as
+select
+  i.id,
+  i.title,
+  i.description,
+  i.artist_name,
+  i.artist_slug,
+  i.media_type,
+  i.file_path,
+  i.youtube_link,
+  i.embed_provider,
+  i.embed_id,
+  i.embed_start_seconds,
+  i.embed_thumbnail_url,
+  i.poster_path,
+  i.duration_seconds,
+  i.width,
+  i.height,
+  i.variants,
+  i.blur_data_url,
+  i.stars,
+  i.num_votes,
+  i.created_at,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes,
+  i.challenge_id,
+  i.challenge_rank,
+  i.model,
+  i.model_version,
+  i.aspect_ratio,
+  i.seed,
+  i.negative_prompt,
+  i.tags,
+  (
+    select count(*)::integer
+    from public.comments c
+    where c.image_id = i.id and c.hidden = false
+  ) as comment_count
+from public.images i
+where i.hidden = false and i.status = 'approved' and i.email_verified_at is not null;
@@ -0,0 +1,40 @@
+-- Append-only record of admin and moderation actions: who did what to
+-- which entry, comment or challenge, with the values before and after.
+create table if not exists public.audit_log (
+  id bigint generated by default as identity primary key,
+  admin_username text not null,
+  action text not null check (action in (
+    'login', 'login_failed', 'logout', 'create', 'edit', 'hide', 'unhide', 'delete',
+    'approve', 'reject', 'dismiss_reports', 'uphold_reports'
+  )),
+  target_type text check (target_type in ('image', 'comment', 'challenge')),
+  target_id bigint,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_target_idx on public.audit_log (target_type, target_id);
+create index if not exists audit_log_admin_idx on public.audit_log (admin_username);
+
+alter table public.audit_log enable row level security;
+
+-- Rows can be added but never changed or removed, not even with the
+-- service role.
+create or replace function public.audit_log_is_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+create trigger audit_log_no_update_or_delete
+  before update or delete on public.audit_log
+  for each row execute function public.audit_log_is_append_only();
+
+create trigger audit_log_no_truncate
+  before truncate on public.audit_log
+  for each statement execute function public.audit_log_is_append_only();
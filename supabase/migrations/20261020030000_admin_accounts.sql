@@ -0,0 +1,31 @@
+-- Admin accounts with roles, replacing the single admin from the
+-- environment. Owners manage accounts, moderators change content, viewers
+-- only look. New and reset accounts have no password until the emailed
+-- setup link is used; only the link's hash is stored.
+create table if not exists public.admin_accounts (
+  id bigint generated by default as identity primary key,
+  username text not null unique check (username ~ '^[a-z0-9_.-]{3,32}$'),
+  email text not null,
+  role text not null check (role in ('owner', 'moderator', 'viewer')),
+  password_hash text,
+  password_changed_at timestamptz,
+  setup_token_hash text unique,
+  setup_token_expires_at timestamptz,
+  disabled_at timestamptz,
+  invited_by text,
+  last_login_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.admin_accounts enable row level security;
+
+alter table public.audit_log drop constraint if exists audit_log_action_check;
+alter table public.audit_log add constraint audit_log_action_check check (action in (
+  'login', 'login_failed', 'logout', 'create', 'edit', 'hide', 'unhide', 'delete',
+  'approve', 'reject', 'dismiss_reports', 'uphold_reports',
+  'invite', 'change_role', 'disable', 'enable', 'reset_password', 'set_password'
+));
+
+alter table public.audit_log drop constraint if exists audit_log_target_type_check;
+alter table public.audit_log add constraint audit_log_target_type_check
+  check (target_type in ('image', 'comment', 'challenge', 'admin'));
@@ -0,0 +1,130 @@
+-- Aggregates for the admin analytics page. Periods are [p_from, p_to) and
+-- buckets are UTC days or ISO weeks (starting on Monday).
+
+create index if not exists images_created_at_idx on public.images (created_at);
+create index if not exists votes_created_at_idx on public.votes (created_at);
+
+-- Submissions and first-time ratings per bucket, including empty buckets.
+create or replace function public.analytics_activity(p_from timestamptz, p_to timestamptz, p_bucket text)
+returns table (bucket date, submissions integer, votes integer, average_rating numeric)
+language sql
+stable
+set search_path = public
+as $$
+  with buckets as (
+    select generate_series(
+      date_trunc(p_bucket, p_from at time zone 'UTC'),
+      (p_to at time zone 'UTC') - interval '1 microsecond',
+      ('1 ' || p_bucket)::interval
+    ) as day
+  ),
+  submitted as (
+    select date_trunc(p_bucket, i.created_at at time zone 'UTC') as day, count(*)::integer as total
+    from images i
+    where i.created_at >= p_from and i.created_at < p_to
+    group by 1
+  ),
+  rated as (
+    select date_trunc(p_bucket, v.created_at at time zone 'UTC') as day, count(*)::integer as total, round(avg(v.rating), 2) as average
+    from votes v
+    where v.created_at >= p_from and v.created_at < p_to
+    group by 1
+  )
+  select b.day::date, coalesce(s.total, 0), coalesce(r.total, 0), r.average
+  from buckets b
+  left join submitted s on s.day = b.day
+  left join rated r on r.day = b.day
+  order by b.day;
+$$;
+
+-- The entries that received the most ratings in the period.
+create or replace function public.analytics_top_images(p_from timestamptz, p_to timestamptz, p_limit integer)
+returns table (id bigint, title text, artist_name text, media_type text, votes integer, average_rating numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select i.id, i.title, i.artist_name, i.media_type, count(*)::integer, round(avg(v.rating), 2)
+  from votes v
+  join images i on i.id = v.image_id
+  where v.created_at >= p_from and v.created_at < p_to
+  group by i.id
+  order by count(*) desc, avg(v.rating) desc, i.id
+  limit p_limit;
+$$;
+
+-- Artists by the ratings their entries received in the period, with the
+-- number of entries they submitted in it.
+create or replace function public.analytics_top_artists(p_from timestamptz, p_to timestamptz, p_limit integer)
+returns table (artist_slug text, artist_name text, submissions integer, votes integer, average_rating numeric)
+language sql
+stable
+set search_path = public
+as $$
+  with submitted as (
+    select i.artist_slug, min(i.artist_name) as name, count(*)::integer as total
+    from images i
+    where i.created_at >= p_from and i.created_at < p_to
+    group by i.artist_slug
+  ),
+  rated as (
+    select i.artist_slug, min(i.artist_name) as name, count(*)::integer as total, avg(v.rating) as average
+    from votes v
+    join images i on i.id = v.image_id
+    where v.created_at >= p_from and v.created_at < p_to
+    group by i.artist_slug
+  )
+  select
+    coalesce(s.artist_slug, r.artist_slug),
+    coalesce(s.name, r.name),
+    coalesce(s.total, 0),
+    coalesce(r.total, 0),
+    round(r.average, 2)
+  from submitted s
+  full join rated r on r.artist_slug = s.artist_slug
+  order by coalesce(r.total, 0) desc, coalesce(s.total, 0) desc, 2
+  limit p_limit;
+$$;
+
+-- Submissions in the period per media type.
+create or replace function public.analytics_media_types(p_from timestamptz, p_to timestamptz)
+returns table (media_type text, submissions integer)
+language sql
+stable
+set search_path = public
+as $$
+  select i.media_type, count(*)::integer
+  from images i
+  where i.created_at >= p_from and i.created_at < p_to
+  group by i.media_type
+  order by 2 desc;
+$$;
+
+-- Challenges running at some point in the period, with their entries, the
+-- distinct artists behind them and the ratings they received overall.
+create or replace function public.analytics_challenges(p_from timestamptz, p_to timestamptz)
+returns table (id bigint, title text, starts_at timestamptz, ends_at timestamptz, entries integer, artists integer, votes integer)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    c.id,
+    c.title,
+    c.starts_at,
+    c.ends_at,
+    count(i.id)::integer,
+    count(distinct i.artist_slug)::integer,
+    coalesce(sum(i.num_votes), 0)::integer
+  from challenges c
+  left join images i on i.challenge_id = c.id
+  where c.starts_at < p_to and c.ends_at > p_from
+  group by c.id
+  order by c.starts_at desc;
+$$;
+
+revoke execute on function public.analytics_activity(timestamptz, timestamptz, text) from public, anon, authenticated;
+revoke execute on function public.analytics_top_images(timestamptz, timestamptz, integer) from public, anon, authenticated;
+revoke execute on function public.analytics_top_artists(timestamptz, timestamptz, integer) from public, anon, authenticated;
+revoke execute on function public.analytics_media_types(timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.analytics_challenges(timestamptz, timestamptz) from public, anon, authenticated;
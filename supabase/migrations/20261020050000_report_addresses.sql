@@ -0,0 +1,51 @@
+-- Reports now only hide an entry once they come from p_threshold distinct
+-- client addresses. The fingerprint is a hash of the trusted client address
+-- (see lib/voter.ts), so one visitor clearing cookies can't reach the
+-- threshold alone.
+create or replace function public.report_image(
+  p_image_id bigint,
+  p_voter_id text,
+  p_fingerprint text,
+  p_reason text,
+  p_details text,
+  p_threshold integer
+)
+returns table (created boolean, hidden boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_created boolean := false;
+  v_addresses integer;
+begin
+  -- Serialise reports per entry so the threshold check sees every report.
+  perform 1 from images where id = p_image_id for update;
+
+  -- A report counts only when both the session and the address are new.
+  if not exists (
+    select 1 from reports r
+    where r.image_id = p_image_id
+      and r.resolved_at is null
+      and (r.voter_id = p_voter_id or r.fingerprint = p_fingerprint)
+  ) then
+    insert into reports (image_id, reason, details, voter_id, fingerprint)
+    values (p_image_id, p_reason, nullif(p_details, ''), p_voter_id, p_fingerprint);
+    v_created := true;
+  end if;
+
+  select count(distinct r.fingerprint) into v_addresses
+  from reports r
+  where r.image_id = p_image_id and r.resolved_at is null;
+
+  if p_threshold > 0 and v_addresses >= p_threshold then
+    update images i
+    set hidden = true, auto_hidden_at = now()
+    where i.id = p_image_id and i.hidden = false;
+  end if;
+
+  return query select v_created, i.hidden from images i where i.id = p_image_id;
+end;
+$$;
+
+revoke execute on function public.report_image(bigint, text, text, text, text, integer) from public, anon, authenticated;
@@ -0,0 +1,55 @@
+-- Seeds become digit strings. ComfyUI and Stable Diffusion seeds go up to
+-- 2^64 - 1, which neither bigint nor a JavaScript number can hold. The view
+-- depends on the column, so it is recreated around the change.
+drop view if exists public.image_feed;
+
+alter table public.images drop constraint if exists images_seed_check;
+alter table public.images alter column seed type text using seed::text;
+alter table public.images add constraint images_seed_check check (seed ~ '^\d{1,20}$');
+
+create view public.image_feed as
+select
+  i.id,
+  i.title,
+  i.description,
+  i.artist_name,
+  i.artist_slug,
+  i.media_type,
+  i.file_path,
+  i.youtube_link,
+  i.embed_provider,
+  i.embed_id,
+  i.embed_start_seconds,
+  i.embed_thumbnail_url,
+  i.poster_path,
+  i.duration_seconds,
+  i.width,
+  i.height,
+  i.variants,
+  i.blur_data_url,
+  i.stars,
+  i.num_votes,
+  i.created_at,
+  coalesce(round(i.stars::numeric / nullif(i.num_votes, 0), 3), 0) as avg_rating,
+  (
+    select count(*)::integer
+    from public.votes v
+    where v.image_id = i.id and v.created_at > now() - interval '7 days'
+  ) as recent_votes,
+  i.challenge_id,
+  i.challenge_rank,
+  i.model,
+  i.model_version,
+  i.aspect_ratio,
+  i.seed,
+  i.negative_prompt,
+  i.tags,
+  (
+    select count(*)::integer
+    from public.comments c
+    where c.image_id = i.id and c.hidden = false
+  ) as comment_count
+from public.images i
+where i.hidden = false and i.status = 'approved' and i.email_verified_at is not null;
+
+grant select on public.image_feed to anon, authenticated;
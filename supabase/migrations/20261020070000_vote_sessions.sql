@@ -0,0 +1,64 @@
+-- Ratings are deduplicated by voter session only. Matching on the address
+-- fingerprint as well made everyone behind one NAT share a single rating,
+-- so the fingerprint is now just recorded with the vote; /api/vote limits
+-- how fast one address can rate instead.
+drop index if exists public.votes_image_fingerprint_idx;
+
+-- Creates or changes the session's rating and adjusts the image totals in
+-- the same transaction.
+create or replace function public.rate_image(p_image_id bigint, p_voter_id text, p_fingerprint text, p_rating smallint)
+returns table (stars integer, num_votes integer, rating smallint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_vote_id bigint;
+  v_previous smallint;
+begin
+  if p_rating < 1 or p_rating > 5 then
+    raise exception 'rating must be between 1 and 5';
+  end if;
+
+  loop
+    select v.id, v.rating into v_vote_id, v_previous
+    from votes v
+    where v.image_id = p_image_id and v.voter_id = p_voter_id
+    for update;
+
+    if found then
+      update votes set rating = p_rating, updated_at = now() where id = v_vote_id;
+      if v_previous is null then
+        return query
+          update images i
+          set stars = i.stars + p_rating, num_votes = i.num_votes + 1, legacy_votes = greatest(i.legacy_votes - 1, 0)
+          where i.id = p_image_id
+          returning i.stars, i.num_votes, p_rating;
+      else
+        return query
+          update images i
+          set stars = i.stars + p_rating - v_previous
+          where i.id = p_image_id
+          returning i.stars, i.num_votes, p_rating;
+      end if;
+      return;
+    end if;
+
+    insert into votes (image_id, voter_id, fingerprint, rating)
+    values (p_image_id, p_voter_id, p_fingerprint, p_rating)
+    on conflict (image_id, voter_id) do nothing;
+
+    if found then
+      return query
+        update images i
+        set stars = i.stars + p_rating, num_votes = i.num_votes + 1
+        where i.id = p_image_id
+        returning i.stars, i.num_votes, p_rating;
+      return;
+    end if;
+    -- A concurrent request inserted the vote first; loop to update it.
+  end loop;
+end;
+$$;
+
+revoke execute on function public.rate_image(bigint, text, text, smallint) from public, anon, authenticated;
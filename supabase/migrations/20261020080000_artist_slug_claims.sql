@@ -0,0 +1,35 @@
+-- One row per submitter email holding its slug. The primary key and the
+-- unique slug let lib/artists.ts claim a slug with a plain insert, so two
+-- concurrent first submissions can't end up sharing one; the loser of the
+-- race gets a unique violation and tries the next suffix.
+create table if not exists public.artist_slugs (
+  email text primary key,
+  slug text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.artist_slugs enable row level security;
+
+-- Each email keeps the slug of its first entry, the earliest email keeping
+-- a slug that was handed out twice.
+insert into public.artist_slugs (email, slug)
+select artist, artist_slug
+from (
+  select distinct on (artist) artist, artist_slug, created_at
+  from public.images
+  order by artist, created_at
+) firsts
+order by created_at
+on conflict do nothing;
+
+-- Emails that lost a shared slug get it suffixed with their first entry's id.
+insert into public.artist_slugs (email, slug)
+select distinct on (i.artist) i.artist, i.artist_slug || '-' || i.id
+from public.images i
+where not exists (select 1 from public.artist_slugs s where s.email = i.artist)
+order by i.artist, i.created_at;
+
+update public.images i
+set artist_slug = s.slug
+from public.artist_slugs s
+where s.email = i.artist and i.artist_slug <> s.slug;
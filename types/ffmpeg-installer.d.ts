@@ -0,0 +1,9 @@
+declare module '@ffmpeg-installer/ffmpeg' {
+  export const path: string;
+  export const version: string;
+}
+
+declare module '@ffprobe-installer/ffprobe' {
+  export const path: string;
+  export const version: string;
+}